@@ -0,0 +1,17 @@
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+
+export default [
+  {
+    // Skrypty testowe w katalogu głównym i pliki konfiguracyjne są w czystym JS
+    ignores: ['dist/**', 'node_modules/**', '**/*.js'],
+  },
+  ...tsPlugin.configs['flat/recommended'],
+  {
+    files: ['**/*.ts'],
+    rules: {
+      // Wiersze z exec_sql i odpowiedzi PostgREST nie mają statycznego typu
+      '@typescript-eslint/no-explicit-any': 'off',
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_', varsIgnorePattern: '^_' }],
+    },
+  },
+];
@@ -2,7 +2,15 @@
  * Konfiguracja aplikacji
  */
 
-import type { AppConfig } from '../types/index.js';
+import { log } from '../helpers/logger.js';
+import type {
+  AppConfig,
+  AuditSinkType,
+  EventStoreType,
+  LogFormat,
+  LogLevel,
+  TracingExporterType,
+} from '../types/index.js';
 
 /**
  * Pobiera konfigurację ze zmiennych środowiskowych
@@ -12,31 +20,115 @@ export function getConfig(): AppConfig {
   const envKeys = Object.keys(process.env).filter(key =>
     key.startsWith('SUPABASE') || key.startsWith('NODE') || key.startsWith('API')
   );
-  console.error('[DEBUG] Dostępne zmienne środowiskowe:', envKeys.join(', '));
+  log('debug', 'Dostępne zmienne środowiskowe:', envKeys.join(', '));
 
   const supabaseProjectUrl = process.env.SUPABASE_PROJECT_URL;
   const supabaseBearerToken = process.env.SUPABASE_BEARER_TOKEN;
 
   if (!supabaseProjectUrl) {
-    console.error('[DEBUG] Wszystkie zmienne env:', Object.keys(process.env).join(', '));
+    log('debug', 'Wszystkie zmienne env:', Object.keys(process.env).join(', '));
     throw new Error('SUPABASE_PROJECT_URL environment variable is required');
   }
 
   if (!supabaseBearerToken) {
-    console.error('[DEBUG] SUPABASE_PROJECT_URL znaleziony, ale brak SUPABASE_BEARER_TOKEN');
+    log('debug', 'SUPABASE_PROJECT_URL znaleziony, ale brak SUPABASE_BEARER_TOKEN');
     throw new Error('SUPABASE_BEARER_TOKEN environment variable is required');
   }
 
+  const oauthResourceUrl = process.env.OAUTH_RESOURCE_URL || undefined;
+  const authAllowedRoles = parseList(process.env.AUTH_ALLOWED_ROLES ?? 'authenticated');
+  const auditAdminRoles = parseList(process.env.AUDIT_ADMIN_ROLES ?? 'service_role');
+  const authIssuer =
+    process.env.AUTH_ISSUER || (oauthResourceUrl ? `${supabaseProjectUrl.replace(/\/+$/, '')}/auth/v1` : undefined);
+
   return {
     supabaseProjectUrl,
     supabaseBearerToken,
     defaultQueryLimit: parseInt(process.env.DEFAULT_QUERY_LIMIT || '50', 10),
     apiTimeout: parseInt(process.env.API_TIMEOUT || '5000', 10),
-    logLevel: process.env.LOG_LEVEL || 'info',
+    verifyConcurrency: parseInt(process.env.VERIFY_CONCURRENCY || '5', 10),
+    orderWatchInterval: parseInt(process.env.ORDER_WATCH_INTERVAL || '60000', 10),
+    orderWatchMaxSubscriptions: parseInt(process.env.ORDER_WATCH_MAX_SUBSCRIPTIONS || '50', 10),
+    apiRetryMaxAttempts: parseInt(process.env.API_RETRY_MAX_ATTEMPTS || '3', 10),
+    apiRetryBaseDelay: parseInt(process.env.API_RETRY_BASE_DELAY || '1000', 10),
+    apiRetryMaxDelay: parseInt(process.env.API_RETRY_MAX_DELAY || '10000', 10),
+    circuitBreakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+    circuitBreakerResetTimeout: parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000', 10),
+    schemaCacheTtl: parseInt(process.env.SCHEMA_CACHE_TTL || '300000', 10),
+    databaseTokenFallback: process.env.DATABASE_TOKEN_FALLBACK === 'true',
+    eventStore: (process.env.EVENT_STORE || 'memory') as EventStoreType,
+    eventStoreDir: process.env.EVENT_STORE_DIR || './data/events',
+    eventStoreTtl: parseInt(process.env.EVENT_STORE_TTL || '3600000', 10),
+    eventStoreMaxEvents: parseInt(process.env.EVENT_STORE_MAX_EVENTS || '1000', 10),
+    sessionIdleTimeout: parseInt(process.env.SESSION_IDLE_TIMEOUT || '1800000', 10),
+    sessionMaxLifetime: parseInt(process.env.SESSION_MAX_LIFETIME || '86400000', 10),
+    maxSessions: parseInt(process.env.MAX_SESSIONS || '1000', 10),
+    maxSessionsPerToken: parseInt(process.env.MAX_SESSIONS_PER_TOKEN || '20', 10),
+    authJwtSecret: process.env.AUTH_JWT_SECRET || undefined,
+    authJwksFile: process.env.AUTH_JWKS_FILE || undefined,
+    // W trybie OAuth (OAUTH_RESOURCE_URL) domyślnie: Supabase Auth projektu, jego JWKS i tokeny wydane dla tego serwera
+    authJwksUrl:
+      process.env.AUTH_JWKS_URL ||
+      (oauthResourceUrl && !process.env.AUTH_JWT_SECRET && !process.env.AUTH_JWKS_FILE
+        ? `${authIssuer}/.well-known/jwks.json`
+        : undefined),
+    authAudience: parseList(process.env.AUTH_AUDIENCE ?? (oauthResourceUrl || 'authenticated')),
+    authIssuer,
+    // Role administratorów audytu muszą przejść weryfikację JWT (pusta lista ról - dowolna rola)
+    authAllowedRoles:
+      authAllowedRoles.length > 0 ? [...new Set([...authAllowedRoles, ...auditAdminRoles])] : authAllowedRoles,
+    oauthResourceUrl,
+    rateLimitPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '120', 10),
+    rateLimitTools: parseToolLimits(process.env.RATE_LIMIT_TOOLS ?? 'verify_orders:10,execute_sql_limited:30', 'RATE_LIMIT_TOOLS'),
+    dailyQuota: parseInt(process.env.DAILY_QUOTA || '0', 10),
+    dailyQuotaTools: parseToolLimits(process.env.DAILY_QUOTA_TOOLS || '', 'DAILY_QUOTA_TOOLS'),
+    trustProxy: parseInt(process.env.TRUST_PROXY || '0', 10),
+    auditLog: (process.env.AUDIT_LOG || 'file') as AuditSinkType,
+    auditLogFile: process.env.AUDIT_LOG_FILE || './data/audit.jsonl',
+    auditRedactArgs: parseList(process.env.AUDIT_REDACT_ARGS ?? 'password,token,secret'),
+    auditAdminRoles,
+    auditAdminUsers: parseList(process.env.AUDIT_ADMIN_USERS || ''),
+    metricsToken: process.env.METRICS_TOKEN || undefined,
+    promptsDir: process.env.PROMPTS_DIR || undefined,
+    tracingExporter: (process.env.TRACING_EXPORTER || 'none') as TracingExporterType,
+    tracingFile: process.env.TRACING_FILE || './data/traces.jsonl',
+    tracingServiceName: process.env.OTEL_SERVICE_NAME || 'express-erp-mcp',
+    logLevel: (process.env.LOG_LEVEL || 'info') as LogLevel,
+    logFormat: (process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')) as LogFormat,
     nodeEnv: process.env.NODE_ENV || 'development',
   };
 }
 
+/**
+ * Dzieli listę wartości rozdzielonych przecinkami (pusta wartość - pusta lista)
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Parsuje limity per narzędzie w formacie "narzedzie:limit,narzedzie:limit"
+ */
+function parseToolLimits(value: string, name: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+
+  for (const entry of parseList(value)) {
+    const [tool, limit] = entry.split(':').map((part) => part.trim());
+    const parsed = parseInt(limit || '', 10);
+
+    if (!tool || isNaN(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a comma-separated list of tool:limit pairs (got "${entry}")`);
+    }
+
+    limits[tool] = parsed;
+  }
+
+  return limits;
+}
+
 /**
  * Waliduje konfigurację
  */
@@ -52,4 +144,125 @@ export function validateConfig(config: AppConfig): void {
   if (config.apiTimeout < 1000 || config.apiTimeout > 30000) {
     throw new Error('API_TIMEOUT must be between 1000 and 30000 milliseconds');
   }
+
+  if (isNaN(config.verifyConcurrency) || config.verifyConcurrency < 1 || config.verifyConcurrency > 20) {
+    throw new Error('VERIFY_CONCURRENCY must be between 1 and 20');
+  }
+
+  if (isNaN(config.orderWatchInterval) || (config.orderWatchInterval !== 0 && config.orderWatchInterval < 5000)) {
+    throw new Error('ORDER_WATCH_INTERVAL must be 0 (subscriptions disabled) or at least 5000 milliseconds');
+  }
+
+  if (isNaN(config.orderWatchMaxSubscriptions) || config.orderWatchMaxSubscriptions < 1) {
+    throw new Error('ORDER_WATCH_MAX_SUBSCRIPTIONS must be a positive number');
+  }
+
+  if (isNaN(config.apiRetryMaxAttempts) || config.apiRetryMaxAttempts < 1 || config.apiRetryMaxAttempts > 10) {
+    throw new Error('API_RETRY_MAX_ATTEMPTS must be between 1 and 10 (1 disables retries)');
+  }
+
+  if (isNaN(config.apiRetryBaseDelay) || config.apiRetryBaseDelay < 0) {
+    throw new Error('API_RETRY_BASE_DELAY must be a non-negative number of milliseconds');
+  }
+
+  if (isNaN(config.apiRetryMaxDelay) || config.apiRetryMaxDelay < config.apiRetryBaseDelay) {
+    throw new Error('API_RETRY_MAX_DELAY must be a number of milliseconds not shorter than API_RETRY_BASE_DELAY');
+  }
+
+  if (isNaN(config.circuitBreakerThreshold) || config.circuitBreakerThreshold < 0) {
+    throw new Error('CIRCUIT_BREAKER_THRESHOLD must be a non-negative number (0 disables the circuit breaker)');
+  }
+
+  if (isNaN(config.circuitBreakerResetTimeout) || config.circuitBreakerResetTimeout < 1000) {
+    throw new Error('CIRCUIT_BREAKER_RESET_TIMEOUT must be at least 1000 milliseconds');
+  }
+
+  if (isNaN(config.schemaCacheTtl) || config.schemaCacheTtl < 0) {
+    throw new Error('SCHEMA_CACHE_TTL must be a non-negative number of milliseconds (0 disables the cache)');
+  }
+
+  if (!['memory', 'file', 'none'].includes(config.eventStore)) {
+    throw new Error('EVENT_STORE must be one of: memory, file, none');
+  }
+
+  if (isNaN(config.eventStoreTtl) || config.eventStoreTtl < 1000) {
+    throw new Error('EVENT_STORE_TTL must be at least 1000 milliseconds');
+  }
+
+  if (isNaN(config.eventStoreMaxEvents) || config.eventStoreMaxEvents < 1) {
+    throw new Error('EVENT_STORE_MAX_EVENTS must be a positive number');
+  }
+
+  if (isNaN(config.sessionIdleTimeout) || config.sessionIdleTimeout < 1000) {
+    throw new Error('SESSION_IDLE_TIMEOUT must be at least 1000 milliseconds');
+  }
+
+  if (isNaN(config.sessionMaxLifetime) || config.sessionMaxLifetime < config.sessionIdleTimeout) {
+    throw new Error('SESSION_MAX_LIFETIME must be a number of milliseconds not shorter than SESSION_IDLE_TIMEOUT');
+  }
+
+  if (isNaN(config.maxSessions) || config.maxSessions < 1) {
+    throw new Error('MAX_SESSIONS must be a positive number');
+  }
+
+  if (isNaN(config.maxSessionsPerToken) || config.maxSessionsPerToken < 1 || config.maxSessionsPerToken > config.maxSessions) {
+    throw new Error('MAX_SESSIONS_PER_TOKEN must be between 1 and MAX_SESSIONS');
+  }
+
+  if (config.authJwtSecret !== undefined && config.authJwtSecret.length < 32) {
+    throw new Error('AUTH_JWT_SECRET must be at least 32 characters long');
+  }
+
+  if (config.authJwksUrl && !config.authJwksUrl.startsWith('http')) {
+    throw new Error('AUTH_JWKS_URL must be a valid HTTP URL');
+  }
+
+  if (config.oauthResourceUrl) {
+    let resourceUrl: URL;
+    try {
+      resourceUrl = new URL(config.oauthResourceUrl);
+    } catch {
+      throw new Error('OAUTH_RESOURCE_URL must be a valid URL of the /mcp endpoint');
+    }
+
+    if (resourceUrl.hash) {
+      throw new Error('OAUTH_RESOURCE_URL must not contain a fragment');
+    }
+
+    if (!config.authIssuer || !config.authIssuer.startsWith('http')) {
+      throw new Error('AUTH_ISSUER must be a valid HTTP URL of the authorization server');
+    }
+
+    if (config.authAudience.length === 0) {
+      throw new Error('AUTH_AUDIENCE must not be empty when OAUTH_RESOURCE_URL is set (tokens must be audience-bound)');
+    }
+  }
+
+  if (isNaN(config.rateLimitPerMinute) || config.rateLimitPerMinute < 0) {
+    throw new Error('RATE_LIMIT_PER_MINUTE must be a non-negative number (0 disables the limit)');
+  }
+
+  if (isNaN(config.dailyQuota) || config.dailyQuota < 0) {
+    throw new Error('DAILY_QUOTA must be a non-negative number (0 disables the quota)');
+  }
+
+  if (isNaN(config.trustProxy) || config.trustProxy < 0) {
+    throw new Error('TRUST_PROXY must be a non-negative number of reverse proxies in front of the server');
+  }
+
+  if (!['file', 'memory', 'none'].includes(config.auditLog)) {
+    throw new Error('AUDIT_LOG must be one of: file, memory, none');
+  }
+
+  if (!['otlp', 'console', 'file', 'none'].includes(config.tracingExporter)) {
+    throw new Error('TRACING_EXPORTER must be one of: otlp, console, file, none');
+  }
+
+  if (!['debug', 'info', 'warn', 'error'].includes(config.logLevel)) {
+    throw new Error('LOG_LEVEL must be one of: debug, info, warn, error');
+  }
+
+  if (!['json', 'pretty'].includes(config.logFormat)) {
+    throw new Error('LOG_FORMAT must be one of: json, pretty');
+  }
 }
@@ -0,0 +1,160 @@
+/**
+ * Circuit breaker dla wywołań zewnętrznego API
+ * Po serii kolejnych błędów odrzuca żądania od razu, po czasie przepuszcza jedno żądanie próbne
+ */
+
+import type { CircuitState } from '../types/index.js';
+
+/**
+ * Decyzja o wysłaniu żądania
+ */
+export type CircuitDecision =
+  | {
+      allowed: true;
+      /** Żądanie próbne stanu półotwartego - tylko jego wynik zamyka lub ponownie otwiera obwód */
+      trial: boolean;
+    }
+  | {
+      allowed: false;
+      /** Sekundy do zamknięcia lub przejścia w stan próbny */
+      retryAfter: number;
+    };
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private rejected = 0;
+  private opened = 0;
+
+  /**
+   * @param failureThreshold - Liczba kolejnych błędów otwierająca obwód (0 wyłącza breaker)
+   * @param resetTimeoutMs - Czas w stanie otwartym przed żądaniem próbnym
+   * @param onStateChange - Wywoływana przy każdej zmianie stanu (logi, metryki)
+   */
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number,
+    private readonly onStateChange?: (state: CircuitState, previous: CircuitState) => void
+  ) {}
+
+  /**
+   * Czy breaker jest włączony
+   */
+  get enabled(): boolean {
+    return this.failureThreshold > 0;
+  }
+
+  /**
+   * Sprawdza, czy żądanie może zostać wysłane
+   * W stanie półotwartym przepuszczane jest tylko jedno żądanie próbne naraz
+   */
+  acquire(): CircuitDecision {
+    if (!this.enabled || this.state === 'closed') {
+      return { allowed: true, trial: false };
+    }
+
+    const now = Date.now();
+    if (this.state === 'open' && now - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half_open');
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return { allowed: true, trial: true };
+    }
+
+    this.rejected++;
+    return {
+      allowed: false,
+      retryAfter: Math.max(1, Math.ceil((this.openedAt + this.resetTimeoutMs - now) / 1000)),
+    };
+  }
+
+  /**
+   * Zapisuje udane żądanie (także odpowiedź błędu klienta - API działa)
+   * Gdy obwód nie jest zamknięty, liczy się tylko żądanie próbne - spóźniona odpowiedź żądania wysłanego
+   * przed otwarciem obwodu nie świadczy o tym, że API znów działa
+   * @param trial - Czy to żądanie próbne (CircuitDecision.trial)
+   */
+  recordSuccess(trial: boolean): void {
+    if (this.state === 'closed') {
+      this.consecutiveFailures = 0;
+      return;
+    }
+    if (!trial) {
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.transition('closed');
+  }
+
+  /**
+   * Zapisuje błąd API (5xx, timeout, błąd sieci)
+   * @param trial - Czy to żądanie próbne (CircuitDecision.trial)
+   */
+  recordFailure(trial: boolean): void {
+    if (this.state !== 'closed' && !trial) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (!this.enabled) {
+      return;
+    }
+
+    // Nieudane żądanie próbne otwiera obwód na kolejny okres
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.opened++;
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Zwalnia żądanie bez wyniku (anulowane przez klienta) - nie zmienia licznika błędów ani stanu
+   * @param trial - Czy to żądanie próbne (CircuitDecision.trial) - wtedy kolejne żądanie może zostać próbnym
+   */
+  release(trial: boolean): void {
+    if (trial) {
+      this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Statystyki do /health
+   */
+  stats(): {
+    enabled: boolean;
+    state: CircuitState;
+    consecutive_failures: number;
+    failure_threshold: number;
+    reset_timeout_ms: number;
+    retry_after: number | null;
+    opened_total: number;
+    rejected_total: number;
+  } {
+    return {
+      enabled: this.enabled,
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      failure_threshold: this.failureThreshold,
+      reset_timeout_ms: this.resetTimeoutMs,
+      retry_after:
+        this.state === 'open' ? Math.max(0, Math.ceil((this.openedAt + this.resetTimeoutMs - Date.now()) / 1000)) : null,
+      opened_total: this.opened,
+      rejected_total: this.rejected,
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.onStateChange?.(state, previous);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Wykonywanie operacji asynchronicznych z ograniczoną współbieżnością
+ */
+
+/**
+ * Mapuje elementy funkcją asynchroniczną, uruchamiając najwyżej `limit` operacji naraz
+ * Kolejność wyników odpowiada kolejności elementów wejściowych
+ * @param items - Elementy wejściowe
+ * @param limit - Maksymalna liczba równoległych operacji
+ * @param fn - Funkcja mapująca
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,240 @@
+/**
+ * Wyszukiwanie klientów w tabeli "Klienci" (find_customer)
+ * SQL wybiera kandydatów po fragmentach wyszukiwanych słów, ranking z tolerancją literówek liczony jest w aplikacji
+ */
+
+import type { CustomerMatch, CustomerSearchField, SqlParam } from '../types/index.js';
+import { POLISH_DIACRITICS, POLISH_DIACRITICS_ASCII, digitsOnly, normalizeText, similarity } from './fuzzyMatch.js';
+
+/**
+ * Wszystkie przeszukiwane pola (kolumny tabeli "Klienci")
+ */
+export const CUSTOMER_SEARCH_FIELDS = ['email', 'imie', 'nazwisko', 'telefon'] as const satisfies readonly CustomerSearchField[];
+
+/**
+ * Maksymalna liczba kandydatów pobieranych z bazy do rankingu
+ */
+export const MAX_CUSTOMER_CANDIDATES = 200;
+
+/**
+ * Minimalna trafność, z jaką każde wyszukiwane słowo musi pasować do któregoś pola
+ */
+const MIN_TERM_SCORE = 0.6;
+
+/**
+ * Maksymalna liczba wyszukiwanych słów
+ */
+const MAX_TERMS = 5;
+
+/**
+ * Numer telefonu porównywany po ostatnich cyfrach (bez prefiksu kraju)
+ */
+const PHONE_SUFFIX_DIGITS = 9;
+
+/**
+ * Wyszukiwane słowo po normalizacji
+ */
+export interface SearchTerm {
+  text: string;
+  /** Numer telefonu (same cyfry) - porównywany tylko z polem telefon */
+  phone: boolean;
+}
+
+/**
+ * Wiersz kandydata zwrócony przez zapytanie
+ */
+interface CustomerRow {
+  id: string | number;
+  imie: string | null;
+  nazwisko: string | null;
+  email: string | null;
+  telefon: string | null;
+  orders: number | string | null;
+}
+
+/**
+ * Dzieli zapytanie na słowa; zapytanie złożone z cyfr i separatorów to jeden numer telefonu
+ */
+export function parseSearchTerms(query: string): SearchTerm[] {
+  if (/^[+\d\s()./-]+$/.test(query) && digitsOnly(query).length >= 3) {
+    return [{ text: digitsOnly(query), phone: true }];
+  }
+
+  const words = normalizeText(query).split(' ').filter(Boolean);
+  // Pojedyncze litery (np. inicjał) tylko, gdy nie ma nic innego
+  const meaningful = words.length > 1 ? words.filter((word) => word.length > 1) : words;
+
+  return meaningful
+    .slice(0, MAX_TERMS)
+    .map((word) => (/^\d{3,}$/.test(word) ? { text: word, phone: true } : { text: word, phone: false }));
+}
+
+/**
+ * Escapuje znaki specjalne LIKE
+ */
+function escapeLike(fragment: string): string {
+  return fragment.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Wzorzec LIKE zawierający fragment
+ */
+function containsPattern(fragment: string): string {
+  return `%${escapeLike(fragment)}%`;
+}
+
+/**
+ * Fragmenty słowa wyszukiwane w SQL - pojedyncza literówka psuje najwyżej jedną połowę słowa
+ */
+function candidateFragments(term: SearchTerm): string[] {
+  if (term.phone) {
+    return [term.text.slice(-PHONE_SUFFIX_DIGITS)];
+  }
+  if (term.text.length < 4) {
+    return [term.text];
+  }
+
+  const half = Math.ceil(term.text.length / 2);
+  return [term.text, term.text.slice(0, half), term.text.slice(term.text.length - half)];
+}
+
+/**
+ * Wyrażenie SQL normalizujące kolumnę tak jak normalizeText (bez ogonków, małe litery)
+ */
+function normalizedColumn(field: CustomerSearchField): string {
+  if (field === 'telefon') {
+    return `regexp_replace(coalesce(k."telefon"::text, ''), '[^0-9]', '', 'g')`;
+  }
+  return `lower(translate(coalesce(k."${field}"::text, ''), '${POLISH_DIACRITICS}', '${POLISH_DIACRITICS_ASCII}'))`;
+}
+
+/**
+ * Buduje zapytanie wybierające kandydatów z liczbą zamówień
+ * Przy ponad MAX_CUSTOMER_CANDIDATES kandydatach baza zwraca najpierw wiersze z polem równym całemu słowu,
+ * potem zaczynającym się od słowa - dokładne trafienia nie giną przez LIMIT, a pełny ranking liczy rankCustomers
+ * Nazwy kolumn pochodzą ze stałej listy, wartości trafiają wyłącznie do parametrów $1, $2
+ * @param terms - Wyszukiwane słowa
+ * @param fields - Przeszukiwane pola
+ */
+export function buildCustomerSearchQuery(
+  terms: SearchTerm[],
+  fields: CustomerSearchField[]
+): { sql: string; params: SqlParam[] } {
+  const textFields = fields.filter((field) => field !== 'telefon');
+  const textPatterns = textFields.length > 0 ? terms.filter((term) => !term.phone).flatMap(candidateFragments) : [];
+  const phonePatterns = fields.includes('telefon') ? terms.filter((term) => term.phone).flatMap(candidateFragments) : [];
+
+  const conditions: string[] = [];
+  const relevance: string[] = [];
+  const params: SqlParam[] = [];
+
+  if (textPatterns.length > 0) {
+    const words = [...new Set(terms.filter((term) => !term.phone).map((term) => term.text))];
+    params.push([...new Set(textPatterns.map(containsPattern))], words, words.map((word) => `${escapeLike(word)}%`));
+    const [contains, exact, prefix] = [params.length - 2, params.length - 1, params.length];
+
+    for (const field of textFields) {
+      const column = normalizedColumn(field);
+      conditions.push(`${column} LIKE ANY($${contains})`);
+      relevance.push(`(${column} = ANY($${exact}))::int * 2`, `(${column} LIKE ANY($${prefix}))::int`);
+    }
+  }
+  if (phonePatterns.length > 0) {
+    const column = normalizedColumn('telefon');
+    const fragments = [...new Set(phonePatterns)];
+    params.push(fragments.map(containsPattern), fragments.map((fragment) => `%${escapeLike(fragment)}`));
+    conditions.push(`${column} LIKE ANY($${params.length - 1})`);
+    // Numer kończący się wyszukiwanymi cyframi (z dowolnym prefiksem kraju)
+    relevance.push(`(${column} LIKE ANY($${params.length}))::int * 2`);
+  }
+
+  const sql =
+    'SELECT k."id", k."imie", k."nazwisko", k."email", k."telefon", ' +
+    '(SELECT COUNT(*)::int FROM "Zamowienia" z WHERE z."id_klienta" = k."id") AS orders ' +
+    `FROM "Klienci" k WHERE ${conditions.length > 0 ? conditions.join(' OR ') : 'false'} ` +
+    `ORDER BY ${relevance.length > 0 ? `${relevance.join(' + ')} DESC, ` : ''}k."id" ` +
+    `LIMIT ${MAX_CUSTOMER_CANDIDATES + 1}`;
+
+  return { sql, params };
+}
+
+/**
+ * Ocenia kandydatów i zwraca pasujących od najtrafniejszego
+ * Każde słowo musi pasować do któregoś pola; trafność klienta to średnia najlepszych dopasowań słów
+ * @param rows - Kandydaci z bazy
+ * @param terms - Wyszukiwane słowa
+ * @param fields - Przeszukiwane pola
+ */
+export function rankCustomers(rows: CustomerRow[], terms: SearchTerm[], fields: CustomerSearchField[]): CustomerMatch[] {
+  const matches: CustomerMatch[] = [];
+
+  for (const row of rows) {
+    const values: Record<CustomerSearchField, string> = {
+      email: normalizeText(row.email ?? ''),
+      imie: normalizeText(row.imie ?? ''),
+      nazwisko: normalizeText(row.nazwisko ?? ''),
+      telefon: digitsOnly(row.telefon ?? ''),
+    };
+
+    const matched = new Set<CustomerSearchField>();
+    let total = 0;
+    let rejected = false;
+
+    for (const term of terms) {
+      let best = 0;
+      let bestField: CustomerSearchField | null = null;
+
+      for (const field of fields) {
+        if (term.phone !== (field === 'telefon')) {
+          continue;
+        }
+        const score =
+          field === 'telefon'
+            ? phoneSimilarity(term.text, values.telefon)
+            : similarity(term.text, values[field]);
+        if (score > best) {
+          best = score;
+          bestField = field;
+        }
+      }
+
+      if (best < MIN_TERM_SCORE || !bestField) {
+        rejected = true;
+        break;
+      }
+      total += best;
+      matched.add(bestField);
+    }
+
+    if (rejected || terms.length === 0) {
+      continue;
+    }
+
+    matches.push({
+      id: row.id,
+      imie: row.imie ?? '',
+      nazwisko: row.nazwisko ?? '',
+      email: row.email ?? '',
+      telefon: row.telefon,
+      orders: Number(row.orders) || 0,
+      score: Math.round((total / terms.length) * 100) / 100,
+      matched_fields: CUSTOMER_SEARCH_FIELDS.filter((field) => matched.has(field)),
+    });
+  }
+
+  // Przy równej trafności wyżej klienci z większą liczbą zamówień
+  return matches.sort((a, b) => b.score - a.score || b.orders - a.orders);
+}
+
+/**
+ * Podobieństwo numerów telefonów (same cyfry) - pełny numer lub jego końcówka bez prefiksu kraju
+ */
+function phoneSimilarity(term: string, phone: string): number {
+  if (!phone) {
+    return 0;
+  }
+  if (term === phone || term.slice(-PHONE_SUFFIX_DIGITS) === phone.slice(-PHONE_SUFFIX_DIGITS)) {
+    return 1;
+  }
+  return phone.includes(term.slice(-PHONE_SUFFIX_DIGITS)) ? 0.8 : 0;
+}
@@ -1,88 +1,358 @@
 /**
- * In-memory event store dla MCP resumability
- * Przechowuje eventy per sesja dla mechanizmu reconnect
+ * Event store dla MCP resumability (Streamable HTTP)
+ * Przechowuje eventy SSE per sesja, aby klient mógł wznowić zerwany stream nagłówkiem Last-Event-ID
  */
 
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+import type { AppConfig } from '../types/index.js';
+
+/**
+ * Event zapisany w store
+ */
 interface StoredEvent {
-  id: string;
-  data: string;
+  id: EventId;
+  streamId: StreamId;
+  timestamp: number;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Funkcja wysyłająca odtwarzany event do klienta
+ */
+type SendEvent = (eventId: EventId, message: JSONRPCMessage) => Promise<void>;
+
+/**
+ * Wymienny backend event store - wszystkie operacje są w zakresie sesji MCP
+ */
+export interface ResumableEventStore {
+  /** Zapisuje event i zwraca jego ID */
+  storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId>;
+  /** Odtwarza eventy ze streamu, do którego należy lastEventId, zapisane po nim */
+  replayEventsAfter(sessionId: string, lastEventId: EventId, send: SendEvent): Promise<StreamId>;
+  /** Usuwa wszystkie eventy sesji */
+  clearSession(sessionId: string): Promise<void>;
+  /** Usuwa eventy starsze niż TTL, zwraca liczbę usuniętych */
+  cleanup(): Promise<number>;
+  /** Statystyki do /health */
+  stats(): Promise<EventStoreStats>;
 }
 
-export class InMemoryEventStore {
+/**
+ * Statystyki event store
+ */
+export interface EventStoreStats {
+  type: string;
+  /** Sesje z zapisanymi eventami (file: pliki na dysku) */
+  sessions: number;
+  /** Wszystkie eventy (memory) */
+  events?: number;
+  /** Sesje wczytane do pamięci procesu (file) - pliki sesji sprzed restartu są wczytywane dopiero przy użyciu */
+  loaded_sessions?: number;
+  /** Eventy sesji wczytanych do pamięci (file) */
+  loaded_events?: number;
+}
+
+/**
+ * Opcje event store
+ */
+export interface EventStoreOptions {
+  /** Czas życia eventu w ms */
+  ttlMs: number;
+  /** Maksymalna liczba eventów per sesja (najstarsze usuwane jako pierwsze) */
+  maxEventsPerSession: number;
+}
+
+/**
+ * Wybiera eventy do odtworzenia: ze streamu lastEventId, zapisane po nim
+ */
+function eventsToReplay(events: StoredEvent[], lastEventId: EventId): { streamId: StreamId; events: StoredEvent[] } {
+  const lastIndex = events.findIndex((event) => event.id === lastEventId);
+
+  if (lastIndex === -1) {
+    return { streamId: '', events: [] };
+  }
+
+  const streamId = events[lastIndex].streamId;
+  return {
+    streamId,
+    events: events.slice(lastIndex + 1).filter((event) => event.streamId === streamId),
+  };
+}
+
+/**
+ * In-memory event store
+ */
+export class InMemoryEventStore implements ResumableEventStore {
   private events: Map<string, StoredEvent[]> = new Map();
-  private maxEventsPerSession = 100; // Limit eventów per sesja
+  private sequences: Map<string, number> = new Map();
 
-  /**
-   * Zapisuje event dla danej sesji
-   */
-  async storeEvent(sessionId: string, eventId: string, data: string): Promise<void> {
-    if (!this.events.has(sessionId)) {
-      this.events.set(sessionId, []);
-    }
+  constructor(private readonly options: EventStoreOptions) {}
 
-    const sessionEvents = this.events.get(sessionId)!;
-    sessionEvents.push({ id: eventId, data });
+  async storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const seq = (this.sequences.get(sessionId) || 0) + 1;
+    this.sequences.set(sessionId, seq);
+
+    const event: StoredEvent = { id: String(seq), streamId, timestamp: Date.now(), message };
+    const sessionEvents = this.events.get(sessionId) || [];
+    sessionEvents.push(event);
 
     // Ogranicz liczbę eventów (FIFO)
-    if (sessionEvents.length > this.maxEventsPerSession) {
-      sessionEvents.shift();
+    if (sessionEvents.length > this.options.maxEventsPerSession) {
+      sessionEvents.splice(0, sessionEvents.length - this.options.maxEventsPerSession);
     }
+
+    this.events.set(sessionId, sessionEvents);
+    return event.id;
   }
 
-  /**
-   * Pobiera eventy od określonego ID (dla resumability)
-   */
-  async getEventsSince(sessionId: string, lastEventId?: string): Promise<StoredEvent[]> {
-    const sessionEvents = this.events.get(sessionId) || [];
+  async replayEventsAfter(sessionId: string, lastEventId: EventId, send: SendEvent): Promise<StreamId> {
+    const replay = eventsToReplay(this.events.get(sessionId) || [], lastEventId);
 
-    if (!lastEventId) {
-      return sessionEvents;
+    for (const event of replay.events) {
+      await send(event.id, event.message);
     }
 
-    // Znajdź index ostatniego otrzymanego eventu
-    const lastIndex = sessionEvents.findIndex((e) => e.id === lastEventId);
+    return replay.streamId;
+  }
 
-    if (lastIndex === -1) {
-      // Nie znaleziono - zwróć wszystkie
-      return sessionEvents;
+  async clearSession(sessionId: string): Promise<void> {
+    this.events.delete(sessionId);
+    this.sequences.delete(sessionId);
+  }
+
+  async cleanup(): Promise<number> {
+    const threshold = Date.now() - this.options.ttlMs;
+    let removed = 0;
+
+    for (const [sessionId, sessionEvents] of this.events.entries()) {
+      const fresh = sessionEvents.filter((event) => event.timestamp > threshold);
+      removed += sessionEvents.length - fresh.length;
+
+      if (fresh.length === 0) {
+        this.events.delete(sessionId);
+      } else {
+        this.events.set(sessionId, fresh);
+      }
     }
 
-    // Zwróć eventy po ostatnim otrzymanym
-    return sessionEvents.slice(lastIndex + 1);
+    return removed;
+  }
+
+  async stats(): Promise<EventStoreStats> {
+    let events = 0;
+    for (const sessionEvents of this.events.values()) {
+      events += sessionEvents.length;
+    }
+    return { type: 'memory', sessions: this.events.size, events };
+  }
+}
+
+/**
+ * Event store w plikach JSONL (jeden plik per sesja)
+ * Eventy przetrwają odłączenie klienta bez trzymania ich w pamięci procesu
+ */
+export class FileEventStore implements ResumableEventStore {
+  private state: Map<string, { seq: number; count: number }> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private readonly directory: string,
+    private readonly options: EventStoreOptions
+  ) {}
+
+  async storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    return this.enqueue(sessionId, async () => {
+      const state = await this.loadState(sessionId);
+      state.seq++;
+      state.count++;
+
+      const event: StoredEvent = { id: String(state.seq), streamId, timestamp: Date.now(), message };
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.filePath(sessionId), `${JSON.stringify(event)}\n`, 'utf8');
+
+      // Kompaktuj plik z zapasem 10%, aby nie przepisywać go przy każdym evencie
+      if (state.count > this.options.maxEventsPerSession * 1.1) {
+        const events = await this.readEvents(sessionId);
+        await this.writeEvents(sessionId, events.slice(-this.options.maxEventsPerSession));
+        state.count = Math.min(events.length, this.options.maxEventsPerSession);
+      }
+
+      return event.id;
+    });
+  }
+
+  async replayEventsAfter(sessionId: string, lastEventId: EventId, send: SendEvent): Promise<StreamId> {
+    const events = await this.enqueue(sessionId, () => this.readEvents(sessionId));
+    const replay = eventsToReplay(events, lastEventId);
+
+    for (const event of replay.events) {
+      await send(event.id, event.message);
+    }
+
+    return replay.streamId;
   }
 
-  /**
-   * Usuwa eventy dla sesji (gdy sesja jest zamykana)
-   */
   async clearSession(sessionId: string): Promise<void> {
-    this.events.delete(sessionId);
+    await this.enqueue(sessionId, async () => {
+      await fs.rm(this.filePath(sessionId), { force: true });
+      this.state.delete(sessionId);
+    });
+  }
+
+  async cleanup(): Promise<number> {
+    const threshold = Date.now() - this.options.ttlMs;
+    let removed = 0;
+
+    for (const file of await this.sessionFiles()) {
+      const sessionId = decodeURIComponent(file.slice(0, -'.jsonl'.length));
+
+      removed += await this.enqueue(sessionId, async () => {
+        const events = await this.readEvents(sessionId);
+        const fresh = events.filter((event) => event.timestamp > threshold);
+
+        if (fresh.length === events.length) {
+          return 0;
+        }
+
+        if (fresh.length === 0) {
+          await fs.rm(this.filePath(sessionId), { force: true });
+          this.state.delete(sessionId);
+        } else {
+          await this.writeEvents(sessionId, fresh);
+          const state = this.state.get(sessionId);
+          if (state) {
+            state.count = fresh.length;
+          }
+        }
+
+        return events.length - fresh.length;
+      });
+    }
+
+    return removed;
+  }
+
+  async stats(): Promise<EventStoreStats> {
+    let loadedEvents = 0;
+    for (const state of this.state.values()) {
+      loadedEvents += state.count;
+    }
+    return {
+      type: 'file',
+      sessions: (await this.sessionFiles()).length,
+      loaded_sessions: this.state.size,
+      loaded_events: loadedEvents,
+    };
   }
 
   /**
-   * Czysci stare sesje (opcjonalne)
+   * Pliki sesji w katalogu event store (brak katalogu - brak sesji)
    */
-  async cleanup(_maxAge: number = 3600000): Promise<void> {
-    // W prawdziwej implementacji należałoby dodać timestampy
-    // i usuwać sesje starsze niż _maxAge
+  private async sessionFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.directory)).filter((name) => name.endsWith('.jsonl'));
+    } catch {
+      return [];
+    }
   }
 
   /**
-   * Replay events po określonym event ID (dla resumability)
-   * Wymaga interface EventStore z MCP SDK
+   * Serializuje operacje na pliku jednej sesji
    */
-  async replayEventsAfter(
-    sessionId: string,
-    lastEventId: string | undefined
-  ): Promise<AsyncIterable<{ id: string; data: string }>> {
-    const events = await this.getEventsSince(sessionId, lastEventId);
-
-    // Zwróć async iterable
-    async function* generator() {
-      for (const event of events) {
-        yield event;
+  private enqueue<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(sessionId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.queues.set(sessionId, next);
+
+    next.finally(() => {
+      if (this.queues.get(sessionId) === next) {
+        this.queues.delete(sessionId);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.jsonl`);
+  }
+
+  private async loadState(sessionId: string): Promise<{ seq: number; count: number }> {
+    let state = this.state.get(sessionId);
+
+    if (!state) {
+      const events = await this.readEvents(sessionId);
+      const last = events[events.length - 1];
+      state = { seq: last ? Number(last.id) || 0 : 0, count: events.length };
+      this.state.set(sessionId, state);
+    }
+
+    return state;
+  }
+
+  private async readEvents(sessionId: string): Promise<StoredEvent[]> {
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.filePath(sessionId), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const events: StoredEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line) as StoredEvent);
+      } catch {
+        // Pomiń uszkodzoną linię (np. przerwany zapis)
       }
     }
+    return events;
+  }
+
+  private async writeEvents(sessionId: string, events: StoredEvent[]): Promise<void> {
+    const target = this.filePath(sessionId);
+    const temporary = `${target}.tmp`;
+    await fs.writeFile(temporary, events.map((event) => `${JSON.stringify(event)}\n`).join(''), 'utf8');
+    await fs.rename(temporary, target);
+  }
+}
+
+/**
+ * Zwraca EventStore z MCP SDK ograniczony do jednej sesji
+ * @param store - Backend event store
+ * @param sessionId - ID sesji MCP
+ */
+export function sessionEventStore(store: ResumableEventStore, sessionId: string): EventStore {
+  return {
+    storeEvent: (streamId, message) => store.storeEvent(sessionId, streamId, message),
+    replayEventsAfter: (lastEventId, { send }) => store.replayEventsAfter(sessionId, lastEventId, send),
+  };
+}
+
+/**
+ * Tworzy event store na podstawie konfiguracji (EVENT_STORE)
+ * @returns event store lub null, jeśli resumability jest wyłączone
+ */
+export function createEventStore(config: AppConfig): ResumableEventStore | null {
+  const options: EventStoreOptions = {
+    ttlMs: config.eventStoreTtl,
+    maxEventsPerSession: config.eventStoreMaxEvents,
+  };
 
-    return generator();
+  switch (config.eventStore) {
+    case 'file':
+      return new FileEventStore(config.eventStoreDir, options);
+    case 'memory':
+      return new InMemoryEventStore(options);
+    case 'none':
+      return null;
   }
 }
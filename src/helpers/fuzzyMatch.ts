@@ -0,0 +1,85 @@
+/**
+ * Dopasowanie tekstu odporne na polskie znaki diakrytyczne i literówki
+ */
+
+/**
+ * Polskie litery z ogonkami i ich odpowiedniki bez ogonków
+ * Ta sama zamiana jest wykonywana w SQL (translate) - NFD nie rozkłada "ł"
+ */
+export const POLISH_DIACRITICS = 'ĄĆĘŁŃÓŚŹŻąćęłńóśźż';
+export const POLISH_DIACRITICS_ASCII = 'ACELNOSZZacelnoszz';
+
+/**
+ * Normalizuje tekst do porównań: małe litery, bez znaków diakrytycznych i zbędnych spacji
+ */
+export function normalizeText(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const index = POLISH_DIACRITICS.indexOf(char);
+    result += index >= 0 ? POLISH_DIACRITICS_ASCII[index] : char;
+  }
+
+  return result
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Same cyfry (porównywanie numerów telefonów niezależnie od formatu)
+ */
+export function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Odległość edycyjna Levenshteina (wstawienie, usunięcie, zamiana znaku)
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_value, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Podobieństwo znormalizowanego wyszukiwanego słowa do wartości pola (0-1)
+ * 1 - identyczne, 0.9 - prefiks, 0.8 - fragment, poniżej - z odległości edycyjnej względem dłuższego słowa
+ */
+export function similarity(term: string, value: string): number {
+  if (!term || !value) {
+    return 0;
+  }
+  if (term === value) {
+    return 1;
+  }
+  if (value.startsWith(term)) {
+    return 0.9;
+  }
+  if (value.includes(term)) {
+    return 0.8;
+  }
+
+  // Literówka porównywana z całą wartością i z jej słowami (np. "kowalsky" z "anna.kowalska@example.com")
+  // Dopasowanie z literówką jest zawsze niżej niż fragment
+  let best = 0;
+  for (const word of new Set([value, ...value.split(/[^a-z0-9]+/)])) {
+    if (word) {
+      best = Math.max(best, 1 - levenshtein(term, word) / Math.max(term.length, word.length));
+    }
+  }
+  return best * 0.8;
+}
@@ -0,0 +1,139 @@
+/**
+ * Kursory paginacji keyset dla execute_sql_limited
+ * Kursor jest nieprzezroczystym tokenem (base64url) z wartościami kluczy sortowania ostatniego wiersza strony
+ */
+
+import type { SqlScalar } from '../types/index.js';
+import { ApiError } from '../types/index.js';
+
+/**
+ * Klucz sortowania zapytania (kolumna wyniku z ORDER BY)
+ */
+export interface SortKey {
+  column: string;
+  direction: 'ASC' | 'DESC';
+  nulls: 'FIRST' | 'LAST' | null;
+}
+
+/**
+ * Zdekodowana zawartość kursora
+ */
+export interface KeysetCursor {
+  fingerprint: string;
+  keys: SortKey[];
+  /** Wartości kluczy ostatniego wiersza strony (NULL dozwolony) */
+  values: SqlScalar[];
+  /** Skrót ostatniego wiersza - rozstrzyga kolejność wierszy o równych kluczach */
+  row: string;
+  /** Liczba zwróconych już wierszy identycznych z ostatnim (te same klucze i skrót) */
+  skip: number;
+}
+
+/**
+ * Ukryta kolumna ze skrótem całego wiersza, dodawana na końcu ORDER BY jako rozstrzygnięcie remisów
+ */
+export const KEYSET_ROW_COLUMN = '_keyset_row';
+
+const CURSOR_VERSION = 2;
+
+/**
+ * Tworzy kursor następnej strony na podstawie ostatniego wiersza
+ * @param page - Wiersze strony z kolumną KEYSET_ROW_COLUMN
+ * @param previous - Kursor, którym pobrano stronę (grupa identycznych wierszy może obejmować kilka stron)
+ * @returns kursor lub null, jeśli strona jest pusta albo wiersz nie zawiera kluczy o wartościach skalarnych
+ */
+export function createNextCursor(
+  fingerprint: string,
+  keys: SortKey[],
+  page: Record<string, unknown>[],
+  previous?: KeysetCursor
+): string | null {
+  const lastRow = page[page.length - 1];
+  const row = lastRow?.[KEYSET_ROW_COLUMN];
+  if (typeof row !== 'string') {
+    return null;
+  }
+
+  const values: SqlScalar[] = [];
+
+  for (const key of keys) {
+    const value = lastRow[key.column];
+    if (value === undefined || (value !== null && typeof value === 'object')) {
+      return null;
+    }
+    values.push(value as SqlScalar);
+  }
+
+  const isSame = (candidate: Record<string, unknown>): boolean =>
+    candidate[KEYSET_ROW_COLUMN] === row && keys.every((key, index) => candidate[key.column] === values[index]);
+
+  // Identyczne wiersze są nierozróżnialne - kolejna strona pomija tyle z nich, ile już zwrócono
+  let skip = 0;
+  while (skip < page.length && isSame(page[page.length - 1 - skip])) {
+    skip++;
+  }
+  if (
+    skip === page.length &&
+    previous &&
+    previous.row === row &&
+    previous.values.every((value, index) => value === values[index])
+  ) {
+    skip += previous.skip;
+  }
+
+  const payload = {
+    v: CURSOR_VERSION,
+    f: fingerprint,
+    k: keys.map((key) => [key.column, key.direction, key.nulls]),
+    x: values,
+    r: row,
+    s: skip,
+  };
+
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Dekoduje kursor przekazany przez klienta
+ */
+export function decodeCursor(cursor: string): KeysetCursor {
+  let payload: {
+    v?: unknown;
+    f?: unknown;
+    k?: unknown;
+    x?: unknown;
+    r?: unknown;
+    s?: unknown;
+  };
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ApiError('Invalid cursor. Pass the next_cursor value returned by the previous call unchanged.', 400);
+  }
+
+  if (
+    !payload ||
+    payload.v !== CURSOR_VERSION ||
+    typeof payload.f !== 'string' ||
+    !Array.isArray(payload.k) ||
+    !Array.isArray(payload.x) ||
+    payload.k.length === 0 ||
+    payload.k.length !== payload.x.length ||
+    typeof payload.r !== 'string' ||
+    !Number.isInteger(payload.s) ||
+    (payload.s as number) < 1
+  ) {
+    throw new ApiError('Invalid cursor. Pass the next_cursor value returned by the previous call unchanged.', 400);
+  }
+
+  return {
+    fingerprint: payload.f,
+    keys: (payload.k as [string, SortKey['direction'], SortKey['nulls']][]).map(
+      ([column, direction, nulls]) => ({ column, direction, nulls })
+    ),
+    values: payload.x as SqlScalar[],
+    row: payload.r,
+    skip: payload.s as number,
+  };
+}
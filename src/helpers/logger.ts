@@ -0,0 +1,149 @@
+/**
+ * Wspólny logger serwera
+ * Poziomy wg LOG_LEVEL, format JSON lub czytelny (LOG_FORMAT) oraz ID korelacji żądania
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { inspect } from 'node:util';
+
+import type { LogFormat, LogLevel } from '../types/index.js';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Ustawienia loggera
+ */
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  /** Wszystkie logi na stderr (tryb stdio - stdout jest zarezerwowany dla JSON-RPC) */
+  stderrOnly: boolean;
+}
+
+/**
+ * Ustawienia początkowe ze zmiennych środowiskowych - logi sprzed wczytania konfiguracji też respektują LOG_LEVEL
+ */
+const options: LoggerOptions = {
+  level: (LOG_LEVELS as readonly string[]).includes(process.env.LOG_LEVEL || '') ? (process.env.LOG_LEVEL as LogLevel) : 'info',
+  format: (process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')) === 'json' ? 'json' : 'pretty',
+  stderrOnly: false,
+};
+
+/**
+ * ID korelacji bieżącego żądania (propagowane przez wywołania asynchroniczne)
+ */
+const correlation = new AsyncLocalStorage<string>();
+
+/**
+ * Dozwolone ID korelacji od klienta (bez znaków, które mogłyby zaburzyć linie logów)
+ */
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Zmienia ustawienia loggera (np. po wczytaniu konfiguracji)
+ */
+export function configureLogger(changes: Partial<LoggerOptions>): void {
+  Object.assign(options, changes);
+}
+
+/**
+ * Wykonuje funkcję z podanym ID korelacji - logi i klienci API/bazy w jej wnętrzu go widzą
+ */
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlation.run(correlationId, fn);
+}
+
+/**
+ * ID korelacji z nagłówka klienta (X-Request-Id) lub nowe, jeśli brak lub ma niedozwolone znaki
+ */
+export function correlationIdFrom(header?: string): string {
+  return header && CORRELATION_ID_PATTERN.test(header) ? header : randomUUID();
+}
+
+/**
+ * ID korelacji bieżącego żądania (undefined poza żądaniem)
+ */
+export function currentCorrelationId(): string | undefined {
+  return correlation.getStore();
+}
+
+/**
+ * Czy komunikaty danego poziomu są wypisywane
+ */
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(options.level);
+}
+
+/**
+ * Zamienia argument na wartość serializowalną do JSON (błędy tracą swoje pola przy JSON.stringify)
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...('statusCode' in value ? { statusCode: value.statusCode } : {}),
+      stack: value.stack,
+    };
+  }
+  return value;
+}
+
+/**
+ * Formatuje wpis jako jedną linię JSON
+ */
+function formatJson(level: LogLevel, message: string, args: unknown[], correlationId?: string): string {
+  const entry: Record<string, unknown> = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+  };
+  if (correlationId) {
+    entry.correlation_id = correlationId;
+  }
+  if (args.length > 0) {
+    entry.details = args.map(toJsonValue);
+  }
+
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    // Struktury cykliczne i BigInt - zapisz je jako tekst
+    return JSON.stringify({ ...entry, details: args.map((arg) => inspect(arg, { depth: 4, breakLength: Infinity })) });
+  }
+}
+
+/**
+ * Formatuje wpis w czytelnej postaci
+ */
+function formatPretty(level: LogLevel, message: string, args: unknown[], correlationId?: string): string {
+  const prefix = `[${new Date().toISOString()}] [${level.toUpperCase()}]${correlationId ? ` [${correlationId}]` : ''}`;
+  const details = args.map((arg) => (typeof arg === 'string' ? arg : inspect(arg, { depth: 4 })));
+  return [`${prefix} ${message}`, ...details].join(' ');
+}
+
+/**
+ * Zapisuje komunikat, jeśli jego poziom nie jest niższy niż LOG_LEVEL
+ * @param level - Poziom (debug, info, warn, error)
+ * @param message - Komunikat
+ * @param args - Dodatkowe dane (obiekty, błędy)
+ */
+export function log(level: string, message: string, ...args: unknown[]): void {
+  const logLevel: LogLevel = (LOG_LEVELS as readonly string[]).includes(level) ? (level as LogLevel) : 'info';
+  if (!isLevelEnabled(logLevel)) {
+    return;
+  }
+
+  const correlationId = currentCorrelationId();
+  const line =
+    options.format === 'json'
+      ? formatJson(logLevel, message, args, correlationId)
+      : formatPretty(logLevel, message, args, correlationId);
+
+  if (options.stderrOnly || logLevel === 'error') {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Formatowanie wyników zapytań SQL (markdown, CSV, NDJSON, JSON)
+ * Kolejność kolumn odpowiada kolejności zwróconej przez bazę danych
+ */
+
+/**
+ * Dostępne formaty wyników
+ */
+export const RESULT_FORMATS = ['json', 'markdown', 'csv', 'ndjson'] as const;
+
+export type ResultFormat = (typeof RESULT_FORMATS)[number];
+
+/**
+ * Formatuje wiersze wyniku w wybranym formacie
+ * @param rows - Wiersze zwrócone przez zapytanie
+ * @param format - Format wyjściowy
+ */
+export function formatRows(rows: Record<string, unknown>[], format: ResultFormat): string {
+  switch (format) {
+    case 'markdown':
+      return formatMarkdown(rows);
+    case 'csv':
+      return formatCsv(rows);
+    case 'ndjson':
+      return rows.map((row) => JSON.stringify(normalizeRow(row))).join('\n');
+    case 'json':
+      return JSON.stringify(rows.map(normalizeRow), null, 2);
+  }
+}
+
+/**
+ * Zbiera nazwy kolumn w kolejności pierwszego wystąpienia
+ */
+function collectColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      columns.add(key);
+    }
+  }
+
+  return [...columns];
+}
+
+/**
+ * Ujednolica wartości wiersza (daty jako ISO 8601, bigint jako string)
+ */
+function normalizeRow(row: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    normalized[key] = normalizeValue(value);
+  }
+
+  return normalized;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+/**
+ * Zamienia wartość na tekst komórki; null/undefined zwraca jako null
+ * Zagnieżdżone kolumny JSON są serializowane kompaktowo
+ */
+function cellText(value: unknown): string | null {
+  const normalized = normalizeValue(value);
+
+  if (normalized === null || normalized === undefined) {
+    return null;
+  }
+  if (typeof normalized === 'object') {
+    return JSON.stringify(normalized);
+  }
+  return String(normalized);
+}
+
+/**
+ * Tabela markdown - NULL wypisywany jawnie, znaki | i nowe linie escapowane
+ */
+function formatMarkdown(rows: Record<string, unknown>[]): string {
+  const columns = collectColumns(rows);
+
+  const escape = (text: string): string =>
+    text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+  const lines = [
+    `| ${columns.map(escape).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+  ];
+
+  for (const row of rows) {
+    const cells = columns.map((column) => {
+      const text = cellText(row[column]);
+      return text === null ? 'NULL' : escape(text);
+    });
+    lines.push(`| ${cells.join(' | ')} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * CSV w stylu RFC 4180 (wiersze rozdzielane \n) - NULL jako puste pole, pusty string jako ""
+ */
+function formatCsv(rows: Record<string, unknown>[]): string {
+  const columns = collectColumns(rows);
+
+  const quote = (text: string): string =>
+    text === '' || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+  const lines = [columns.map(quote).join(',')];
+
+  for (const row of rows) {
+    const cells = columns.map((column) => {
+      const text = cellText(row[column]);
+      return text === null ? '' : quote(text);
+    });
+    lines.push(cells.join(','));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,740 @@
+/**
+ * Walidacja zapytań SQL oparta na parserze PostgreSQL
+ * Buduje AST zapytania (libpg-query), dopuszcza wyłącznie pojedyncze zapytanie tylko do odczytu
+ * i nakłada LIMIT/OFFSET przez modyfikację drzewa zamiast operacji na stringu
+ */
+
+import { createHash } from 'node:crypto';
+import { parse, hasSqlDetails } from 'libpg-query';
+import type { Node, ParseResult, SelectStmt } from 'libpg-query';
+import { deparse, QuoteUtils } from 'pgsql-deparser';
+
+import type { SqlParam, SqlScalar } from '../types/index.js';
+import { ApiError } from '../types/index.js';
+import { decodeCursor, KEYSET_ROW_COLUMN } from './keysetCursor.js';
+import type { KeysetCursor, SortKey } from './keysetCursor.js';
+
+/**
+ * Zapytanie przygotowane do wykonania
+ */
+export interface PreparedQuery {
+  /** Zapytanie do wykonania - pobiera limit + 1 wierszy, aby ustalić has_more (przy limit 0 nie jest wykonywane) */
+  sql: string;
+  limited: boolean;
+  limit: number;
+  offset: number;
+  /**
+   * Klucze sortowania do budowy kursora (null gdy ORDER BY nie nadaje się do paginacji keyset lub użyto OFFSET)
+   * Przy paginacji keyset wiersze wyniku zawierają dodatkowo kolumnę KEYSET_ROW_COLUMN
+   */
+  sortKeys: SortKey[] | null;
+  /** Skrót zapytania (bez LIMIT/OFFSET) wiążący kursor z zapytaniem i parametrami */
+  fingerprint: string;
+}
+
+/**
+ * Węzły AST modyfikujące dane - niedozwolone na żadnym poziomie zapytania (np. w CTE)
+ */
+const DATA_MODIFYING_NODES: Record<string, string> = {
+  InsertStmt: 'INSERT',
+  UpdateStmt: 'UPDATE',
+  DeleteStmt: 'DELETE',
+  MergeStmt: 'MERGE',
+};
+
+/**
+ * Funkcje z efektami ubocznymi lub dostępem do serwera - niedozwolone w zapytaniach agentów
+ * Lista nie obejmuje funkcji użytkownika (VOLATILE) - przed zapisem chroni transakcja READ ONLY w exec_sql
+ */
+const FORBIDDEN_FUNCTIONS = new Set([
+  'pg_cancel_backend',
+  'pg_terminate_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_switch_wal',
+  'pg_promote',
+  'pg_drop_replication_slot',
+  'pg_log_backend_memory_contexts',
+  'pg_import_system_collations',
+  'pg_notify',
+  'pg_stat_file',
+  'loread',
+  'lowrite',
+  'current_setting',
+  'set_config',
+  'nextval',
+  'setval',
+  'query_to_xml',
+  'query_to_xml_and_xmlschema',
+]);
+
+/**
+ * Rodziny funkcji niedozwolonych po prefiksie nazwy (np. pg_stat_reset_shared, lo_get, pg_create_restore_point)
+ */
+const FORBIDDEN_FUNCTION_PREFIXES = [
+  'pg_sleep',
+  'pg_advisory_',
+  'pg_try_advisory_',
+  'pg_read_',
+  'pg_ls_',
+  'pg_stat_reset',
+  'pg_create_',
+  'pg_copy_',
+  'pg_replication_',
+  'pg_logical_',
+  'pg_backup_',
+  'pg_wal_replay_',
+  'lo_',
+  'dblink',
+];
+
+/**
+ * Maksymalna liczba wierszy generate_series o stałych granicach
+ * Serie o granicach wyliczanych w zapytaniu ogranicza statement_timeout w exec_sql
+ */
+const MAX_SERIES_ROWS = 100_000;
+
+/**
+ * Opisy trybów blokowania wierszy
+ */
+const LOCKING_STRENGTHS: Record<string, string> = {
+  LCS_FORUPDATE: 'FOR UPDATE',
+  LCS_FORNOKEYUPDATE: 'FOR NO KEY UPDATE',
+  LCS_FORSHARE: 'FOR SHARE',
+  LCS_FORKEYSHARE: 'FOR KEY SHARE',
+};
+
+/**
+ * Parsuje zapytanie, waliduje że jest pojedynczym zapytaniem tylko do odczytu
+ * i nakłada limit oraz offset na poziomie AST
+ * @param query - Zapytanie SQL od agenta
+ * @param maxLimit - Maksymalna liczba zwracanych rekordów
+ * @param offset - Offset dla paginacji (ignorowany jeśli zapytanie ma własny OFFSET)
+ * @param params - Wartości parametrów $1, $2, ... podstawiane w AST jako typowane stałe
+ * @param cursor - Kursor keyset z poprzedniej strony (wyklucza offset)
+ */
+export async function prepareReadOnlyQuery(
+  query: string,
+  maxLimit: number,
+  offset: number = 0,
+  params: SqlParam[] = [],
+  cursor?: string
+): Promise<PreparedQuery> {
+  const ast = await parseQuery(query);
+  const stmts = ast.stmts || [];
+
+  if (stmts.length === 0) {
+    throw new ApiError('Query is empty. Provide a single SELECT statement.', 400);
+  }
+
+  if (stmts.length > 1) {
+    throw new ApiError(
+      `Only a single statement is allowed, but the query contains ${stmts.length} statements separated by ";".`,
+      400
+    );
+  }
+
+  const stmt = stmts[0].stmt;
+  const statementType = stmt ? Object.keys(stmt)[0] : 'unknown';
+
+  if (!stmt || !('SelectStmt' in stmt)) {
+    throw new ApiError(
+      `Statement type ${statementType} is not allowed. Only SELECT queries are allowed. For data modification, use appropriate MCP tools.`,
+      400
+    );
+  }
+
+  assertReadOnly(stmt);
+  bindParameters(stmt, params);
+  assertSeriesBounded(stmt);
+
+  const select = stmt.SelectStmt;
+
+  // Przy WITH TIES liczba wierszy zależy od remisów, więc nie da się pobrać dokładnie jednego wiersza ponad stronę
+  if (select.limitOption === 'LIMIT_OPTION_WITH_TIES') {
+    throw new ApiError(
+      'FETCH FIRST ... WITH TIES is not supported. Use LIMIT with an ORDER BY ending in a unique column instead.',
+      400
+    );
+  }
+
+  const limited = applyLimit(select, maxLimit);
+  const pageSize = readIntegerConst(select.limitCount) ?? maxLimit;
+  const sortKeys = readSortKeys(select);
+  const fingerprint = await queryFingerprint(select);
+
+  let finalSelect = select;
+  let effectiveOffset = readIntegerConst(select.limitOffset) ?? 0;
+
+  if (cursor) {
+    if (offset > 0 || select.limitOffset) {
+      throw new ApiError('cursor cannot be combined with offset or OFFSET. Use one pagination method.', 400);
+    }
+    effectiveOffset = 0;
+  } else if (offset > 0 && !select.limitOffset) {
+    select.limitOffset = integerConst(offset);
+    effectiveOffset = offset;
+  }
+
+  // Paginacja keyset od pierwszej strony, aby kolejność remisujących wierszy była taka sama na każdej stronie
+  const keyset = pageSize > 0 && (cursor !== undefined || (sortKeys !== null && !select.limitOffset));
+  if (keyset) {
+    finalSelect = await applyKeyset(select, sortKeys, fingerprint, cursor ? decodeCursor(cursor) : undefined);
+  }
+
+  // Pobierz jeden wiersz ponad stronę, aby dokładnie ustalić has_more (LIMIT 0 pozostaje bez zmian)
+  finalSelect.limitCount = integerConst(pageSize === 0 ? 0 : pageSize + 1);
+  stmts[0].stmt = { SelectStmt: finalSelect };
+
+  return {
+    sql: await deparse(ast, { pretty: false }),
+    limited,
+    limit: pageSize,
+    offset: effectiveOffset,
+    sortKeys: keyset ? sortKeys : null,
+    fingerprint,
+  };
+}
+
+/**
+ * Podstawia parametry $1, $2, ... w zaufanym zapytaniu serwera (np. introspekcja schematu)
+ * Nie wykonuje walidacji tylko do odczytu ani nie nakłada limitów
+ * @param query - Zapytanie SQL z placeholderami
+ * @param params - Wartości parametrów
+ */
+export async function bindQueryParams(query: string, params: SqlParam[]): Promise<string> {
+  const ast = await parseQuery(query);
+
+  for (const raw of ast.stmts || []) {
+    if (raw.stmt) {
+      bindParameters(raw.stmt, params);
+    }
+  }
+
+  return await deparse(ast, { pretty: false });
+}
+
+/**
+ * Parsuje zapytanie i zamienia błędy parsera na czytelne ApiError
+ */
+async function parseQuery(query: string): Promise<ParseResult> {
+  try {
+    return await parse(query);
+  } catch (error) {
+    if (hasSqlDetails(error) && error.sqlDetails) {
+      throw new ApiError(
+        `SQL syntax error at position ${error.sqlDetails.cursorPosition}: ${error.sqlDetails.message}`,
+        400
+      );
+    }
+    throw new ApiError(
+      `SQL syntax error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      400
+    );
+  }
+}
+
+/**
+ * Przechodzi całe drzewo i odrzuca konstrukcje, które nie są tylko do odczytu
+ */
+function assertReadOnly(node: unknown): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      assertReadOnly(item);
+    }
+    return;
+  }
+
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key in DATA_MODIFYING_NODES) {
+      throw new ApiError(
+        `Data-modifying statement ${DATA_MODIFYING_NODES[key]} is not allowed (also inside WITH clauses). Only read-only queries are allowed.`,
+        400
+      );
+    }
+
+    if (key === 'SelectStmt') {
+      assertSelectIsReadOnly(value as SelectStmt);
+    }
+
+    if (key === 'FuncCall') {
+      const name = functionName(value as { funcname?: Node[] });
+      if (FORBIDDEN_FUNCTIONS.has(name) || FORBIDDEN_FUNCTION_PREFIXES.some((prefix) => name.startsWith(prefix))) {
+        throw new ApiError(
+          `Function ${name}() is not allowed in read-only queries.`,
+          400
+        );
+      }
+    }
+
+    assertReadOnly(value);
+  }
+}
+
+/**
+ * Odrzuca SELECT ... INTO oraz blokowanie wierszy (FOR UPDATE/SHARE)
+ */
+function assertSelectIsReadOnly(select: SelectStmt): void {
+  if (select.intoClause) {
+    throw new ApiError(
+      'SELECT ... INTO creates a table and is not allowed. Only read-only queries are allowed.',
+      400
+    );
+  }
+
+  if (select.lockingClause && select.lockingClause.length > 0) {
+    const clause = select.lockingClause[0] as { LockingClause?: { strength?: string } };
+    const strength = LOCKING_STRENGTHS[clause.LockingClause?.strength || ''] || 'FOR UPDATE/SHARE';
+    throw new ApiError(
+      `Row locking (SELECT ... ${strength}) is not allowed in read-only queries.`,
+      400
+    );
+  }
+}
+
+/**
+ * Odrzuca generate_series o stałych granicach zwracające więcej niż MAX_SERIES_ROWS wierszy
+ * Wywoływana po podstawieniu parametrów, więc obejmuje też granice przekazane jako $n
+ */
+function assertSeriesBounded(node: unknown): void {
+  if (Array.isArray(node)) {
+    node.forEach(assertSeriesBounded);
+    return;
+  }
+
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'FuncCall') {
+      const call = value as { funcname?: Node[]; args?: Node[] };
+      if (functionName(call) === 'generate_series') {
+        const [start, stop, step = 1] = (call.args || []).map(readNumericConst);
+        if (start !== undefined && stop !== undefined && step !== undefined && step !== 0) {
+          const rows = Math.floor((stop - start) / step) + 1;
+          if (rows > MAX_SERIES_ROWS) {
+            throw new ApiError(
+              `generate_series() would return ${rows} rows. At most ${MAX_SERIES_ROWS} rows are allowed.`,
+              400
+            );
+          }
+        }
+      }
+    }
+
+    assertSeriesBounded(value);
+  }
+}
+
+/**
+ * Odczytuje wartość stałej liczbowej (całkowitej lub dziesiętnej) z węzła AST
+ */
+function readNumericConst(node: Node | undefined): number | undefined {
+  if (!node || !('A_Const' in node)) {
+    return undefined;
+  }
+
+  const constant = node.A_Const;
+  if (constant.ival) {
+    return constant.ival.ival ?? 0;
+  }
+  if (constant.fval?.fval !== undefined) {
+    return Number(constant.fval.fval);
+  }
+  return undefined;
+}
+
+/**
+ * Zwraca nazwę wywoływanej funkcji (bez schematu, małymi literami)
+ */
+function functionName(call: { funcname?: Node[] }): string {
+  const parts = call.funcname || [];
+  const last = parts[parts.length - 1] as { String?: { sval?: string } } | undefined;
+  return (last?.String?.sval || '').toLowerCase();
+}
+
+/**
+ * Podstawia wartości parametrów w miejsce węzłów ParamRef ($n)
+ * Wartości trafiają do AST jako stałe, więc deparser odpowiada za ich bezpieczne cytowanie
+ */
+function bindParameters(root: Node, params: SqlParam[]): void {
+  const used = new Set<number>();
+
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    const wrapper = node as Record<string, unknown>;
+    if ('ParamRef' in wrapper) {
+      const number = (wrapper.ParamRef as { number?: number }).number ?? 0;
+      if (number < 1 || number > params.length) {
+        throw new ApiError(
+          `Query references parameter $${number}, but only ${params.length} parameter(s) were provided in params.`,
+          400
+        );
+      }
+
+      used.add(number);
+      delete wrapper.ParamRef;
+      Object.assign(wrapper, paramNode(params[number - 1], number));
+      return;
+    }
+
+    Object.values(wrapper).forEach(visit);
+  };
+
+  visit(root);
+
+  if (used.size < params.length) {
+    const unused = params
+      .map((_value, index) => index + 1)
+      .filter((number) => !used.has(number))
+      .map((number) => `$${number}`);
+    throw new ApiError(
+      `Parameters ${unused.join(', ')} were provided but are not used in the query.`,
+      400
+    );
+  }
+}
+
+/**
+ * Zamienia wartość parametru na węzeł AST
+ */
+function paramNode(value: SqlParam, number: number): Node {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new ApiError(
+        `Parameter $${number} is an empty array. Empty arrays have no type - use e.g. '{}'::int[] in the query instead.`,
+        400
+      );
+    }
+    return { A_ArrayExpr: { elements: value.map((item) => scalarNode(item, number)) } };
+  }
+
+  return scalarNode(value, number);
+}
+
+/**
+ * Zamienia wartość skalarną parametru na stałą AST (A_Const)
+ */
+function scalarNode(value: SqlScalar, number: number): Node {
+  if (value === null) {
+    return { A_Const: { isnull: true } };
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return { A_Const: { sval: { sval: value } } };
+    case 'boolean':
+      return { A_Const: { boolval: { boolval: value } } };
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new ApiError(`Parameter $${number} must be a finite number.`, 400);
+      }
+      if (Number.isInteger(value) && Math.abs(value) <= 2147483647) {
+        return { A_Const: { ival: { ival: value } } };
+      }
+      return { A_Const: { fval: { fval: String(value) } } };
+    default:
+      throw new ApiError(
+        `Parameter $${number} has unsupported type ${typeof value}. Use string, number, boolean or null.`,
+        400
+      );
+  }
+}
+
+/**
+ * Odczytuje klucze sortowania z ORDER BY jako nazwy kolumn wyniku
+ * @returns null jeśli brak ORDER BY lub któryś element nie jest kolumną wyniku (np. wyrażenie)
+ */
+function readSortKeys(select: SelectStmt): SortKey[] | null {
+  const sortClause = select.sortClause || [];
+  if (sortClause.length === 0) {
+    return null;
+  }
+
+  // Dla UNION/INTERSECT/EXCEPT nazwy kolumn wyznacza pierwsze zapytanie
+  let first: SelectStmt = select;
+  while (first.larg) {
+    first = first.larg;
+  }
+  const targets = (first.targetList || []).map(
+    (target) => (target as { ResTarget?: { name?: string; val?: Node } }).ResTarget || {}
+  );
+
+  // Kolumny wyniku są adresowane po nazwie w zapytaniu opakowującym - muszą być jednoznaczne
+  if (!hasUniqueOutputColumns(first, targets)) {
+    return null;
+  }
+
+  const keys: SortKey[] = [];
+
+  for (const item of sortClause) {
+    const sortBy = (item as { SortBy?: { node?: Node; sortby_dir?: string; sortby_nulls?: string } }).SortBy;
+    if (!sortBy?.node || sortBy.sortby_dir === 'SORTBY_USING') {
+      return null;
+    }
+
+    let column: string | undefined;
+    const position = readIntegerConst(sortBy.node);
+
+    if (position !== undefined) {
+      // ORDER BY <pozycja kolumny>
+      const target = targets[position - 1];
+      column = target?.name || (target?.val ? columnRefName(target.val) : undefined);
+    } else {
+      const refName = columnRefName(sortBy.node);
+      const aliased = targets.find(
+        (target) => target.name && target.val && JSON.stringify(stripLocations(target.val)) === JSON.stringify(stripLocations(sortBy.node))
+      );
+      column = aliased?.name || refName;
+    }
+
+    if (!column) {
+      return null;
+    }
+
+    keys.push({
+      column,
+      direction: sortBy.sortby_dir === 'SORTBY_DESC' ? 'DESC' : 'ASC',
+      nulls:
+        sortBy.sortby_nulls === 'SORTBY_NULLS_FIRST'
+          ? 'FIRST'
+          : sortBy.sortby_nulls === 'SORTBY_NULLS_LAST'
+          ? 'LAST'
+          : null,
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Czy nazwy kolumn wyniku są jednoznaczne (np. SELECT * z JOIN może zwrócić dwie kolumny id)
+ * Gwiazdka jest dopuszczalna tylko przy jednej tabeli w FROM
+ */
+function hasUniqueOutputColumns(select: SelectStmt, targets: Array<{ name?: string; val?: Node }>): boolean {
+  const names = new Set<string>();
+  const from = select.fromClause || [];
+
+  for (const target of targets) {
+    const fields = target.val && 'ColumnRef' in target.val ? target.val.ColumnRef.fields || [] : [];
+    if (!target.name && fields.some((field) => 'A_Star' in field)) {
+      if (from.length !== 1 || !('RangeVar' in from[0])) {
+        return false;
+      }
+      continue;
+    }
+
+    const name = target.name || (target.val ? columnRefName(target.val) : undefined);
+    if (name) {
+      if (names.has(name)) {
+        return false;
+      }
+      names.add(name);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Zwraca nazwę kolumny z referencji (ostatni człon, np. k.imie → imie)
+ */
+function columnRefName(node: Node): string | undefined {
+  if (!('ColumnRef' in node)) {
+    return undefined;
+  }
+  const fields = node.ColumnRef.fields || [];
+  const last = fields[fields.length - 1] as { String?: { sval?: string } } | undefined;
+  return last?.String?.sval;
+}
+
+/**
+ * Kopiuje węzeł AST bez pól location (do porównywania struktur)
+ */
+function stripLocations(node: unknown): unknown {
+  return JSON.parse(JSON.stringify(node, (key, value) => (key === 'location' ? undefined : value)));
+}
+
+/**
+ * Skrót zapytania bez LIMIT/OFFSET - kursor jest ważny tylko dla tego samego zapytania i parametrów
+ */
+async function queryFingerprint(select: SelectStmt): Promise<string> {
+  const copy: SelectStmt = structuredClone(select);
+  delete copy.limitCount;
+  delete copy.limitOffset;
+  copy.limitOption = 'LIMIT_OPTION_DEFAULT';
+
+  const sql = await deparse({ SelectStmt: copy }, { pretty: false });
+  return createHash('sha256').update(sql).digest('hex').slice(0, 16);
+}
+
+/**
+ * Opakowuje zapytanie do paginacji keyset i opcjonalnie nakłada warunek kursora:
+ * SELECT _keyset.*, md5(_keyset::text) AS _keyset_row FROM (<zapytanie>) AS _keyset
+ * WHERE <wiersze za kursorem> ORDER BY k1, k2, ..., _keyset_row OFFSET <pominięte identyczne wiersze>
+ * Skrót całego wiersza na końcu ORDER BY czyni kolejność jednoznaczną także przy remisie kluczy,
+ * a porównanie rozpisane per klucz obsługuje mieszane kierunki ASC/DESC i położenie NULL
+ */
+async function applyKeyset(
+  select: SelectStmt,
+  sortKeys: SortKey[] | null,
+  fingerprint: string,
+  cursor?: KeysetCursor
+): Promise<SelectStmt> {
+  if (!sortKeys) {
+    throw new ApiError(
+      'Cursor pagination requires an ORDER BY on result columns (e.g. ORDER BY id) and unique result column names. ' +
+        'Expressions in ORDER BY and SELECT * over several tables are not supported.',
+      400
+    );
+  }
+
+  if (cursor && cursor.fingerprint !== fingerprint) {
+    throw new ApiError(
+      'Cursor does not match this query. Repeat exactly the same query and params when passing a cursor.',
+      400
+    );
+  }
+
+  if (cursor && !sameSortKeys(cursor.keys, sortKeys)) {
+    throw new ApiError(
+      'Cursor was created for a different ORDER BY. Repeat exactly the same query and params when passing a cursor.',
+      400
+    );
+  }
+
+  const ref = (key: SortKey): string => `_keyset.${QuoteUtils.quoteIdentifier(key.column)}`;
+  const rowHash = 'md5(_keyset::text)';
+
+  const orderBy = sortKeys
+    .map((key) => `${ref(key)} ${key.direction}${key.nulls ? ` NULLS ${key.nulls}` : ''}`)
+    .concat(KEYSET_ROW_COLUMN)
+    .join(', ');
+
+  let where = '';
+  const values: SqlScalar[] = [];
+
+  if (cursor) {
+    const param = (value: SqlScalar): string => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    const equalities: string[] = [];
+    const branches: string[] = [];
+
+    sortKeys.forEach((key, index) => {
+      const value = cursor.values[index];
+      // Domyślnie PostgreSQL sortuje NULL jako największe: na końcu przy ASC, na początku przy DESC
+      const nullsFirst = key.nulls ? key.nulls === 'FIRST' : key.direction === 'DESC';
+      let after: string | null;
+
+      if (value === null) {
+        after = nullsFirst ? `${ref(key)} IS NOT NULL` : null;
+        equalities.push(`${ref(key)} IS NULL`);
+      } else {
+        const placeholder = param(value);
+        const comparison = `${ref(key)} ${key.direction === 'DESC' ? '<' : '>'} ${placeholder}`;
+        after = nullsFirst ? comparison : `(${comparison} OR ${ref(key)} IS NULL)`;
+        equalities.push(`${ref(key)} = ${placeholder}`);
+      }
+
+      if (after) {
+        branches.push(`(${[...equalities.slice(0, -1), after].join(' AND ')})`);
+      }
+    });
+
+    branches.push(`(${[...equalities, `${rowHash} >= ${param(cursor.row)}`].join(' AND ')})`);
+    where = ` WHERE ${branches.join(' OR ')}`;
+  }
+
+  const wrapper = await parse(
+    `SELECT _keyset.*, ${rowHash} AS ${KEYSET_ROW_COLUMN} FROM (SELECT 1) AS _keyset${where} ORDER BY ${orderBy}`
+  );
+  const outer = (wrapper.stmts![0].stmt as { SelectStmt: SelectStmt }).SelectStmt;
+  bindParameters({ SelectStmt: outer }, values);
+
+  const inner: SelectStmt = { ...select };
+  delete inner.limitCount;
+  delete inner.limitOffset;
+  inner.limitOption = 'LIMIT_OPTION_DEFAULT';
+
+  const subselect = outer.fromClause![0] as { RangeSubselect: { subquery: Node } };
+  subselect.RangeSubselect.subquery = { SelectStmt: inner };
+  outer.limitOption = 'LIMIT_OPTION_COUNT';
+
+  if (cursor) {
+    // Identyczne wiersze zwrócone już na poprzednich stronach
+    outer.limitOffset = integerConst(cursor.skip);
+  }
+
+  return outer;
+}
+
+/**
+ * Porównuje klucze sortowania zapisane w kursorze z ORDER BY bieżącego zapytania
+ */
+function sameSortKeys(cursorKeys: SortKey[], sortKeys: SortKey[]): boolean {
+  return (
+    cursorKeys.length === sortKeys.length &&
+    cursorKeys.every(
+      (key, index) =>
+        key.column === sortKeys[index].column &&
+        key.direction === sortKeys[index].direction &&
+        key.nulls === sortKeys[index].nulls
+    )
+  );
+}
+
+/**
+ * Ustawia LIMIT zapytania na maxLimit jeśli go brak, jest większy lub nie jest stałą
+ * @returns true jeśli limit został dodany lub zmniejszony
+ */
+function applyLimit(select: SelectStmt, maxLimit: number): boolean {
+  const requested = readIntegerConst(select.limitCount);
+
+  if (requested !== undefined && requested <= maxLimit) {
+    return false;
+  }
+
+  select.limitCount = integerConst(maxLimit);
+  select.limitOption = 'LIMIT_OPTION_COUNT';
+  return true;
+}
+
+/**
+ * Odczytuje wartość stałej całkowitej z węzła AST (undefined dla wyrażeń, parametrów i LIMIT ALL)
+ */
+function readIntegerConst(node: Node | undefined): number | undefined {
+  if (!node || !('A_Const' in node)) {
+    return undefined;
+  }
+
+  const constant = node.A_Const;
+  if (constant.isnull || !constant.ival) {
+    return undefined;
+  }
+
+  // Protobuf pomija zerowe wartości - { ival: {} } oznacza 0
+  return constant.ival.ival ?? 0;
+}
+
+/**
+ * Tworzy węzeł AST stałej całkowitej
+ */
+function integerConst(value: number): Node {
+  return { A_Const: { ival: { ival: value } } };
+}
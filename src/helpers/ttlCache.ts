@@ -0,0 +1,105 @@
+/**
+ * Prosty cache w pamięci z czasem życia wpisów (TTL)
+ */
+
+/**
+ * Wpis w cache
+ */
+export interface CacheEntry<V> {
+  value: V;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export class TtlCache<V> {
+  private entries: Map<string, CacheEntry<V>> = new Map();
+
+  /**
+   * @param ttlMs - Czas życia wpisu w milisekundach (0 wyłącza cache)
+   * @param maxEntries - Maksymalna liczba wpisów (najstarsze usuwane jako pierwsze)
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number = 100
+  ) {}
+
+  /**
+   * Czy cache jest włączony
+   */
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  /**
+   * Pobiera aktualny wpis (wygasłe wpisy są usuwane)
+   */
+  get(key: string): CacheEntry<V> | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Zapisuje wartość w cache
+   */
+  set(key: string, value: V): CacheEntry<V> {
+    const now = Date.now();
+    const entry: CacheEntry<V> = {
+      value,
+      storedAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+
+    if (!this.enabled) {
+      return entry;
+    }
+
+    // Odśwież pozycję klucza w kolejności wstawiania
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Usuwa wpisy, których klucz spełnia predykat (bez predykatu - wszystkie)
+   * @returns liczba usuniętych wpisów
+   */
+  invalidate(predicate?: (key: string) => boolean): number {
+    if (!predicate) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Liczba przechowywanych wpisów
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
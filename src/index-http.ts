@@ -7,31 +7,26 @@
 
 import express from 'express';
 import cors from 'cors';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
 
 import { getConfig, validateConfig } from './config/index.js';
 import { ApiClient } from './services/apiClient.js';
+import { OrderWatcher } from './services/orderWatcher.js';
 import { DatabaseClient } from './services/databaseClient.js';
-import { verifyOrderTool, handleVerifyOrder } from './tools/orderVerification.js';
-import {
-  getDatabaseSchemaTool,
-  executeSQLLimitedTool,
-  handleGetDatabaseSchema,
-  handleExecuteSQLLimited,
-} from './tools/databaseTools.js';
-
-/**
- * Logowanie
- */
-function log(level: string, message: string, ...args: unknown[]): void {
-  const timestamp = new Date().toISOString();
-  console.error(`[${timestamp}] [${level.toUpperCase()}] ${message}`, ...args);
-}
+import { handleVerifyOrder } from './tools/orderVerification.js';
+import { registerTools, toolDefinitions, type ToolContext } from './tools/registry.js';
+import { createAuditHandler } from './tools/auditTools.js';
+import { registerResources } from './resources/registry.js';
+import { loadPromptDefinitions, registerPrompts } from './prompts/registry.js';
+import { authClaimsFrom, createJwtVerifier } from './services/jwtVerifier.js';
+import { RateLimiter } from './services/rateLimiter.js';
+import { SessionManager } from './services/sessionManager.js';
+import { createAuditLogger } from './services/auditLog.js';
+import { createMetricsHandler, enableProcessMetrics, metrics } from './services/metrics.js';
+import { initTracing, shutdownTracing } from './services/tracing.js';
+import { configureLogger, correlationIdFrom, log, withCorrelationId } from './helpers/logger.js';
 
 /**
  * Główna funkcja serwera
@@ -43,6 +38,10 @@ async function main(): Promise<void> {
     // Wczytaj i waliduj konfigurację
     const config = getConfig();
     validateConfig(config);
+    configureLogger({ level: config.logLevel, format: config.logFormat });
+    if (initTracing(config)) {
+      log('info', `Tracing OpenTelemetry włączony [${config.tracingExporter}]`);
+    }
     log('info', 'Konfiguracja załadowana pomyślnie');
 
     // Utwórz klienta API
@@ -54,18 +53,53 @@ async function main(): Promise<void> {
     if (config.supabaseProjectUrl && config.supabaseBearerToken) {
       log('info', 'Klient bazy danych zainicjalizowany [Bearer Token - z RLS]');
       log('info', '✓ Wszystkie zapytania respektują Row Level Security - bezpieczne dla agentów AI');
+      if (config.databaseTokenFallback) {
+        log('warn', 'DATABASE_TOKEN_FALLBACK=true - żądania bez tokena używają skonfigurowanego SUPABASE_BEARER_TOKEN');
+      }
     } else {
       log('warn', 'Klient bazy danych nie został skonfigurowany. Narzędzia database będą niedostępne.');
     }
 
+    // Limity wywołań narzędzi (wspólne dla wszystkich połączeń)
+    const rateLimiter = new RateLimiter(config);
+
+    // Audyt wywołań narzędzi (AUDIT_LOG)
+    const auditLog = createAuditLogger(config, (error) => log('error', 'Błąd zapisu audytu:', error));
+
+    // Obserwowanie subskrybowanych zamówień (ORDER_WATCH_INTERVAL, 0 wyłącza subskrypcje)
+    const orderWatcher = config.orderWatchInterval > 0 ? new OrderWatcher(apiClient, config) : undefined;
+
+    // Prompty MCP: wbudowane i z katalogu PROMPTS_DIR
+    const prompts = await loadPromptDefinitions(config.promptsDir);
+
+    // Lokalna weryfikacja JWT (AUTH_JWT_SECRET / AUTH_JWKS_FILE) przed przekazaniem tokena do Supabase
+    const jwtVerifier = createJwtVerifier(config);
+    const requireAuth: express.RequestHandler = jwtVerifier
+      ? requireBearerAuth({ verifier: jwtVerifier })
+      : (_req, _res, next) => next();
+    if (jwtVerifier) {
+      log('info', `Weryfikacja JWT włączona (role: ${config.authAllowedRoles.join(', ')})`);
+    } else {
+      log('warn', 'Weryfikacja JWT wyłączona - token z Authorization header jest przekazywany bez sprawdzenia');
+    }
+
     // Utwórz Express app
     const app = express();
+    // Adres klienta z X-Forwarded-For za zaufanymi proxy (klucz limitów, audyt)
+    app.set('trust proxy', config.trustProxy);
     const port = process.env.PORT || 3000;
 
     // Middleware
     app.use(cors());
     app.use(express.json());
 
+    // ID korelacji żądania (X-Request-Id) - trafia do logów, audytu i żądań do Supabase
+    app.use((req, res, next) => {
+      const correlationId = correlationIdFrom(req.get('x-request-id'));
+      res.setHeader('X-Request-Id', correlationId);
+      withCorrelationId(correlationId, next);
+    });
+
     // Health check endpoint
     app.get('/health', (_req, res) => {
       res.json({
@@ -73,9 +107,16 @@ async function main(): Promise<void> {
         service: 'express-erp-mcp',
         version: '1.0.0',
         timestamp: new Date().toISOString(),
+        rateLimiter: rateLimiter.stats(),
+        orderWatcher: orderWatcher ? orderWatcher.stats() : null,
+        apiCircuitBreaker: apiClient.circuitBreakerStats(),
       });
     });
 
+    // Metryki Prometheus
+    enableProcessMetrics();
+    app.get('/metrics', createMetricsHandler(config.metricsToken));
+
     // Info endpoint
     app.get('/', (_req, res) => {
       res.json({
@@ -84,15 +125,17 @@ async function main(): Promise<void> {
         description: 'MCP Server dla systemu ERP - weryfikacja zamówień',
         endpoints: {
           health: '/health',
+          metrics: '/metrics',
           sse: '/sse',
           test: '/test',
+          ...(auditLog ? { audit: '/audit' } : {}),
         },
-        tools: ['verify_order', 'get_database_schema', 'execute_sql_limited'],
+        tools: toolDefinitions.map((tool) => tool.name),
       });
     });
 
     // Test endpoint do weryfikacji zamówień bez MCP
-    app.post('/test/verify-order', async (req, res) => {
+    app.post('/test/verify-order', requireAuth, async (req, res) => {
       try {
         const { numer_zamowienia } = req.body;
 
@@ -102,7 +145,8 @@ async function main(): Promise<void> {
           });
         }
 
-        const result = await handleVerifyOrder(apiClient, { numer_zamowienia });
+        // Szczegóły audytu (SQL, liczba wierszy) są wewnętrzne - jak w odpowiedziach narzędzi MCP
+        const { audit: _audit, ...result } = await handleVerifyOrder(apiClient, { numer_zamowienia }, req.auth?.token);
         return res.json(result);
       } catch (error) {
         log('error', 'Błąd w test endpoint:', error);
@@ -112,12 +156,18 @@ async function main(): Promise<void> {
       }
     });
 
+    // Audyt wywołań narzędzi - te same filtry co w narzędziu get_audit_log (tylko administratorzy)
+    app.get('/audit', requireAuth, createAuditHandler(auditLog));
+
+    // Aktywne połączenia SSE: sessionId -> transport i skrót tokena, którym otwarto połączenie
+    const sseSessions = new Map<string, { transport: SSEServerTransport; tokenKey: string }>();
+
     // SSE endpoint dla MCP
-    app.get('/sse', async (req, res) => {
+    app.get('/sse', requireAuth, async (req, res) => {
       log('info', 'Nowe połączenie SSE');
 
       // Utwórz serwer MCP dla tego połączenia
-      const mcpServer = new Server(
+      const mcpServer = new McpServer(
         {
           name: 'express-erp-mcp',
           version: '1.0.0',
@@ -125,62 +175,71 @@ async function main(): Promise<void> {
         {
           capabilities: {
             tools: {},
+            resources: {},
+            prompts: {},
           },
         }
       );
 
-      // Zarejestruj handler dla list_tools
-      mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
-        log('info', 'Otrzymano żądanie list_tools');
-        return {
-          tools: [verifyOrderTool, getDatabaseSchemaTool, executeSQLLimitedTool],
-        };
-      });
-
-      // Zarejestruj handler dla call_tool
-      mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
-        const { name, arguments: args } = request.params;
-        log('info', `Otrzymano żądanie call_tool: ${name}`);
-
-        if (name === 'verify_order') {
-          return await handleVerifyOrder(apiClient, args);
-        }
-
-        if (name === 'get_database_schema') {
-          return await handleGetDatabaseSchema(databaseClient, args);
-        }
-
-        if (name === 'execute_sql_limited') {
-          return await handleExecuteSQLLimited(databaseClient, args);
-        }
-
-        throw new Error(`Nieznane narzędzie: ${name}`);
-      });
+      // Zarejestruj narzędzia, zasoby i prompty z rejestrów
+      // Token z Authorization header połączenia SSE jest przekazywany do Supabase (RLS wywołującego)
+      const authToken = req.headers['authorization']?.replace(/^Bearer\s+/i, '') || undefined;
+      const context: ToolContext = {
+        apiClient,
+        databaseClient,
+        bearerToken: authToken,
+        auth: authClaimsFrom(req.auth),
+        rateLimiter,
+        auditLog: auditLog ?? undefined,
+        orderWatcher,
+        clientIp: req.ip,
+      };
+      registerTools(mcpServer, context, log);
+      registerResources(mcpServer, context, log);
+      registerPrompts(mcpServer, context, prompts, log);
 
       // Obsługa błędów serwera
-      mcpServer.onerror = (error) => {
+      mcpServer.server.onerror = (error) => {
         log('error', 'Błąd serwera MCP:', error);
       };
 
       // Utwórz transport SSE
       const transport = new SSEServerTransport('/message', res);
 
-      // Połącz serwer z transportem
+      // Połącz serwer z transportem (wysyła klientowi adres /message?sessionId=...)
       await mcpServer.connect(transport);
-      log('info', 'Połączenie SSE ustanowione');
+      sseSessions.set(transport.sessionId, { transport, tokenKey: SessionManager.tokenKey(authToken) });
+      log('info', `Połączenie SSE ustanowione (sesja: ${transport.sessionId})`);
+      metrics.sessionsActive.inc();
 
       // Obsłuż zamknięcie połączenia
       req.on('close', () => {
-        log('info', 'Połączenie SSE zamknięte');
+        log('info', `Połączenie SSE zamknięte (sesja: ${transport.sessionId})`);
+        sseSessions.delete(transport.sessionId);
+        metrics.sessionsActive.dec();
         mcpServer.close();
       });
     });
 
-    // Endpoint do wysyłania wiadomości (POST dla MCP)
-    app.post('/message', async (_req, res) => {
-      log('info', 'Otrzymano wiadomość POST /message');
-      // To jest obsługiwane przez SSEServerTransport
-      res.status(200).json({ received: true });
+    // Wiadomości klienta dla połączenia SSE wskazanego przez sessionId
+    app.post('/message', requireAuth, async (req, res) => {
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+      const session = sseSessions.get(sessionId);
+
+      if (!session) {
+        res.status(404).json({ error: `Nieznana sesja SSE: ${sessionId || '(brak sessionId)'}. Otwórz nowe połączenie GET /sse.` });
+        return;
+      }
+
+      // Sesja jest związana z tokenem połączenia SSE (jak sesje Streamable HTTP)
+      const authToken = req.headers['authorization']?.replace(/^Bearer\s+/i, '') || undefined;
+      if (SessionManager.tokenKey(authToken) !== session.tokenKey) {
+        res.status(403).json({ error: `Sesja SSE ${sessionId} należy do innego tokena.` });
+        return;
+      }
+
+      // Treść została już odczytana przez express.json()
+      await session.transport.handlePostMessage(req, res, req.body);
     });
 
     // Uruchom serwer
@@ -209,15 +268,15 @@ async function main(): Promise<void> {
   }
 }
 
-// Obsługa sygnałów zakończenia
+// Obsługa sygnałów zakończenia (wysłanie pozostałych spanów przed wyjściem)
 process.on('SIGINT', () => {
   log('info', 'Otrzymano SIGINT, zamykanie serwera...');
-  process.exit(0);
+  shutdownTracing().finally(() => process.exit(0));
 });
 
 process.on('SIGTERM', () => {
   log('info', 'Otrzymano SIGTERM, zamykanie serwera...');
-  process.exit(0);
+  shutdownTracing().finally(() => process.exit(0));
 });
 
 // Obsługa nieobsłużonych błędów
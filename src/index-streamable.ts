@@ -9,45 +9,66 @@
 import express from 'express';
 import cors from 'cors';
 import { randomUUID } from 'node:crypto';
-import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
 
 import { getConfig, validateConfig } from './config/index.js';
 import { ApiClient } from './services/apiClient.js';
+import { OrderWatcher } from './services/orderWatcher.js';
 import { DatabaseClient } from './services/databaseClient.js';
-import { handleVerifyOrder } from './tools/orderVerification.js';
-import {
-  handleGetDatabaseSchema,
-  handleExecuteSQLLimited,
-} from './tools/databaseTools.js';
+import { SessionManager } from './services/sessionManager.js';
+import { RateLimiter } from './services/rateLimiter.js';
+import { createAuditLogger } from './services/auditLog.js';
+import { createMetricsHandler, enableProcessMetrics, metrics } from './services/metrics.js';
+import { initTracing, shutdownTracing, traceMcpRequest } from './services/tracing.js';
+import { configureLogger, correlationIdFrom, log, withCorrelationId } from './helpers/logger.js';
+import { createEventStore, sessionEventStore } from './helpers/eventStore.js';
+import { handleVerifyOrder, verifyOrderTool } from './tools/orderVerification.js';
+import { createAuditHandler, getAuditLogTool } from './tools/auditTools.js';
+import { registerTools, toolDefinitions, toolScopes, type ToolContext } from './tools/registry.js';
+import { registerResources } from './resources/registry.js';
+import { loadPromptDefinitions, registerPrompts, type PromptDefinition } from './prompts/registry.js';
+import { createJwtVerifier } from './services/jwtVerifier.js';
+import { createProtectedResourceRouter, protectedResourceMetadataUrl } from './services/oauthResource.js';
 
 /**
- * Logowanie
+ * Odpowiedź dla żądania z ID sesji usuniętej przez serwer (HTTP 404 - klient powinien zainicjalizować nową sesję)
  */
-function log(level: string, message: string, ...args: unknown[]): void {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
-
-  if (level === 'error') {
-    console.error(logMessage, ...args);
-  } else {
-    console.log(logMessage, ...args);
-  }
+function sendSessionEvicted(res: express.Response, sessionId: string, reason: string): void {
+  const description = reason === 'idle' ? 'was idle for too long' : 'reached its maximum lifetime';
+  res.status(404).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32001,
+      message: `Session ${sessionId} expired: it ${description} and was closed by the server. Send a new initialize request without Mcp-Session-Id.`,
+      data: { reason },
+    },
+    id: null,
+  });
+}
+
+/**
+ * Odpowiedź dla żądania z tokenem innym niż ten, którym zainicjalizowano sesję
+ */
+function sendSessionForbidden(res: express.Response, sessionId: string): void {
+  res.status(403).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: `Session ${sessionId} belongs to a different token. Send a new initialize request without Mcp-Session-Id.`,
+    },
+    id: null,
+  });
 }
 
 /**
  * Tworzy instancję MCP servera z naszymi narzędziami
- * @param apiClient - Klient API
- * @param databaseClient - Klient bazy danych
- * @param bearerToken - Token autoryzacyjny (opcjonalny, przekazywany do Supabase)
+ * @param context - Klienci, token autoryzacyjny sesji (przekazywany do Supabase), limiter i tryb zakresów OAuth
+ * @param prompts - Definicje promptów (wbudowane i z PROMPTS_DIR)
  */
-function createMcpServer(
-  apiClient: ApiClient,
-  databaseClient: DatabaseClient,
-  bearerToken?: string
-): McpServer {
+function createMcpServer(context: ToolContext, prompts: PromptDefinition[]): McpServer {
   const server = new McpServer(
     {
       name: 'express-erp-mcp',
@@ -56,128 +77,16 @@ function createMcpServer(
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
       },
     }
   );
 
-  // Rejestracja narzędzia verify_order
-  server.registerTool(
-    'verify_order',
-    {
-      title: 'Verify Order',
-      description:
-        'Verifies if an order exists in the ERP system and retrieves detailed order information. ' +
-        'Returns order status, total value, customer details. Use this to validate order numbers ' +
-        'and retrieve customer information. Order numbers follow format: OP1001, OP1002, etc. ' +
-        'Respects Row Level Security (RLS) - only authorized orders are returned.',
-      inputSchema: {
-        numer_zamowienia: z
-          .string()
-          .min(1)
-          .max(50)
-          .describe('Order number to verify (e.g., OP1001, OP1002). Required parameter. Case-sensitive.'),
-      },
-    },
-    async (args, _extra) => {
-      log('info', `Wywołanie verify_order z argumentami:`, args);
-
-      // Przekaż token do handleVerifyOrder (jeśli został podany podczas tworzenia serwera)
-      const result = await handleVerifyOrder(apiClient, args, bearerToken);
-
-      // Konwersja do właściwego typu
-      return {
-        content: result.content.map((item) => ({
-          type: item.type as 'text',
-          text: item.text,
-        })),
-      };
-    }
-  );
-
-  // Rejestracja narzędzia get_database_schema
-  server.registerTool(
-    'get_database_schema',
-    {
-      title: 'Get Database Schema',
-      description:
-        'Retrieves detailed database schema from Supabase PostgreSQL. Returns tables, columns (name, type, nullable, defaults), ' +
-        'foreign key relationships, and indexes. ALWAYS call this FIRST before executing SQL queries to see available tables ' +
-        'and their exact names. CRITICAL: Table names with capitals require double quotes in SQL queries (e.g., "Zamowienia").',
-      inputSchema: {
-        include_relations: z
-          .boolean()
-          .optional()
-          .default(true)
-          .describe('Include foreign key relationships between tables. Recommended: true. Default: true'),
-        include_indexes: z
-          .boolean()
-          .optional()
-          .default(true)
-          .describe('Include index information for performance analysis. Default: true'),
-        schema: z
-          .string()
-          .optional()
-          .default('public')
-          .describe('Database schema name to query. Use "public" for main tables. Default: "public"'),
-      },
-    },
-    async (args, _extra) => {
-      log('info', `Wywołanie get_database_schema z argumentami:`, args);
-
-      const result = await handleGetDatabaseSchema(databaseClient, args);
-
-      return {
-        content: result.content.map((item) => ({
-          type: item.type as 'text',
-          text: item.text,
-        })),
-      };
-    }
-  );
-
-  // Rejestracja narzędzia execute_sql_limited
-  server.registerTool(
-    'execute_sql_limited',
-    {
-      title: 'Execute SQL Query (SELECT only)',
-      description:
-        'Executes SELECT queries against Supabase PostgreSQL with automatic record limiting. ' +
-        'ONLY SELECT queries allowed - no data modification. Default limit: 50 records (max 1000). ' +
-        'CRITICAL: Table names with capitals MUST use double quotes: "Zamowienia" not Zamowienia. ' +
-        'Examples: SELECT * FROM "Klienci"; SELECT k.imie, z.numer_zamowienia FROM "Klienci" k JOIN "Zamowienia" z ON k.id = z.id_klienta. ' +
-        'Respects Row Level Security (RLS) - only authorized data returned.',
-      inputSchema: {
-        query: z
-          .string()
-          .min(10)
-          .describe('SQL SELECT query. IMPORTANT: Use double quotes for mixed-case table names like "Zamowienia". Example: SELECT * FROM "Klienci" WHERE email = \'test@example.com\''),
-        limit: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe('Maximum records to return. Default: 50 (from config). Max: 1000. Use for pagination.'),
-        offset: z
-          .number()
-          .min(0)
-          .optional()
-          .default(0)
-          .describe('Records to skip (for pagination). Example: offset=50 with limit=50 returns records 51-100. Default: 0'),
-      },
-    },
-    async (args, _extra) => {
-      log('info', `Wywołanie execute_sql_limited z argumentami:`, args);
-
-      const result = await handleExecuteSQLLimited(databaseClient, args);
-
-      return {
-        content: result.content.map((item) => ({
-          type: item.type as 'text',
-          text: item.text,
-        })),
-      };
-    }
-  );
+  // Rejestracja narzędzi, zasobów i promptów z rejestrów
+  registerTools(server, context, log);
+  registerResources(server, context, log);
+  registerPrompts(server, context, prompts, log);
 
   return server;
 }
@@ -192,6 +101,10 @@ async function main(): Promise<void> {
     // Wczytaj i waliduj konfigurację
     const config = getConfig();
     validateConfig(config);
+    configureLogger({ level: config.logLevel, format: config.logFormat });
+    if (initTracing(config)) {
+      log('info', `Tracing OpenTelemetry włączony [${config.tracingExporter}]`);
+    }
     log('info', 'Konfiguracja załadowana pomyślnie');
 
     // Utwórz klienta API
@@ -203,12 +116,75 @@ async function main(): Promise<void> {
     if (config.supabaseProjectUrl && config.supabaseBearerToken) {
       log('info', 'Klient bazy danych zainicjalizowany [Bearer Token - z RLS]');
       log('info', '✓ Wszystkie zapytania respektują Row Level Security - bezpieczne dla agentów AI');
+      if (config.databaseTokenFallback) {
+        log('warn', 'DATABASE_TOKEN_FALLBACK=true - żądania bez tokena używają skonfigurowanego SUPABASE_BEARER_TOKEN');
+      }
     } else {
       log('warn', 'Klient bazy danych nie został skonfigurowany. Narzędzia database będą niedostępne.');
     }
 
+    // Limity wywołań narzędzi (wspólne dla wszystkich sesji)
+    const rateLimiter = new RateLimiter(config);
+
+    // Audyt wywołań narzędzi (AUDIT_LOG)
+    const auditLog = createAuditLogger(config, (error) => log('error', 'Błąd zapisu audytu:', error));
+
+    // Obserwowanie subskrybowanych zamówień (ORDER_WATCH_INTERVAL, 0 wyłącza subskrypcje)
+    const orderWatcher = config.orderWatchInterval > 0 ? new OrderWatcher(apiClient, config) : undefined;
+
+    // Prompty MCP: wbudowane i z katalogu PROMPTS_DIR
+    const prompts = await loadPromptDefinitions(config.promptsDir);
+
+    // Event store dla wznawiania streamów SSE (Last-Event-ID)
+    const eventStore = createEventStore(config);
+    if (eventStore) {
+      log('info', `Event store zainicjalizowany [${config.eventStore}] - resumability włączone`);
+    } else {
+      log('warn', 'Event store wyłączony (EVENT_STORE=none) - zerwane streamy SSE nie będą wznawiane');
+    }
+
+    // Okresowe usuwanie eventów starszych niż EVENT_STORE_TTL
+    const eventCleanupInterval = setInterval(async () => {
+      try {
+        const removed = (await eventStore?.cleanup()) || 0;
+        if (removed > 0) {
+          log('info', `Usunięto ${removed} wygasłych eventów z event store`);
+        }
+      } catch (error) {
+        log('error', 'Błąd czyszczenia event store:', error);
+      }
+    }, Math.min(config.eventStoreTtl, 60000));
+    eventCleanupInterval.unref();
+
+    // Lokalna weryfikacja JWT (AUTH_JWT_SECRET / AUTH_JWKS_FILE) przed przekazaniem tokena do Supabase
+    const jwtVerifier = createJwtVerifier(config);
+    // W trybie OAuth (OAUTH_RESOURCE_URL) odpowiedź 401 wskazuje metadane zasobu z serwerem autoryzacji
+    const resourceMetadataUrl = config.oauthResourceUrl ? protectedResourceMetadataUrl(config) : undefined;
+    const requireAuth: express.RequestHandler = jwtVerifier
+      ? requireBearerAuth({ verifier: jwtVerifier, resourceMetadataUrl })
+      : (_req, _res, next) => next();
+    // Endpoint testowy omija rejestr narzędzi, więc zakresy verify_order są sprawdzane już przy uwierzytelnianiu
+    const requireTestAuth: express.RequestHandler =
+      jwtVerifier && config.oauthResourceUrl
+        ? requireBearerAuth({ verifier: jwtVerifier, resourceMetadataUrl, requiredScopes: verifyOrderTool.scopes })
+        : requireAuth;
+    const requireAuditAuth: express.RequestHandler =
+      jwtVerifier && config.oauthResourceUrl
+        ? requireBearerAuth({ verifier: jwtVerifier, resourceMetadataUrl, requiredScopes: getAuditLogTool.scopes })
+        : requireAuth;
+    if (jwtVerifier) {
+      log('info', `Weryfikacja JWT włączona (role: ${config.authAllowedRoles.join(', ') || 'dowolna'})`);
+      if (config.oauthResourceUrl) {
+        log('info', `OAuth: zasób ${config.oauthResourceUrl}, serwer autoryzacji ${config.authIssuer}`);
+      }
+    } else {
+      log('warn', 'Weryfikacja JWT wyłączona - token z Authorization header jest przekazywany bez sprawdzenia');
+    }
+
     // Utwórz Express app
     const app = express();
+    // Adres klienta z X-Forwarded-For za zaufanymi proxy (klucz limitów, audyt)
+    app.set('trust proxy', config.trustProxy);
     const port = process.env.PORT || 3000;
 
     // Middleware
@@ -216,10 +192,22 @@ async function main(): Promise<void> {
     app.use(
       cors({
         origin: '*', // Pozwól wszystkim domenom
-        exposedHeaders: ['Mcp-Session-Id'], // Expose session ID header
+        exposedHeaders: ['Mcp-Session-Id', 'X-Request-Id'], // Expose session ID header
       })
     );
 
+    // ID korelacji żądania (X-Request-Id) - trafia do logów, audytu i żądań do Supabase
+    app.use((req, res, next) => {
+      const correlationId = correlationIdFrom(req.get('x-request-id'));
+      res.setHeader('X-Request-Id', correlationId);
+      withCorrelationId(correlationId, next);
+    });
+
+    // Metadane chronionego zasobu OAuth (RFC 9728)
+    if (config.oauthResourceUrl) {
+      app.use(createProtectedResourceRouter(config, toolScopes));
+    }
+
     // Middleware do przechowywania Authorization header w request
     // Token będzie przekazywany bezpośrednio do Supabase API
     app.use((req: express.Request, _res: express.Response, next: express.NextFunction) => {
@@ -230,21 +218,43 @@ async function main(): Promise<void> {
       next();
     });
 
-    // Mapa przechowująca transporty per sesja
-    const transports: Map<string, StreamableHTTPServerTransport> = new Map();
+    // Rejestr sesji z limitami i wygaszaniem
+    const sessions = new SessionManager(config);
+
+    // Okresowe zamykanie bezczynnych i zbyt długo żyjących sesji
+    const sessionSweepInterval = setInterval(async () => {
+      try {
+        for (const { sessionId, reason } of await sessions.evictExpired()) {
+          metrics.sessionsEvicted.inc({ reason });
+          log('info', `Sesja ${sessionId} zamknięta przez serwer (${reason === 'idle' ? 'bezczynność' : 'maksymalny czas życia'})`);
+        }
+      } catch (error) {
+        log('error', 'Błąd wygaszania sesji:', error);
+      }
+    }, Math.min(config.sessionIdleTimeout, 60000));
+    sessionSweepInterval.unref();
 
     // Health check endpoint
-    app.get('/health', (_req, res) => {
+    app.get('/health', async (_req, res) => {
       return res.json({
         status: 'healthy',
         service: 'express-erp-mcp',
         version: '1.0.0',
         protocol: 'streamable-http',
         timestamp: new Date().toISOString(),
-        activeSessions: transports.size,
+        activeSessions: sessions.size,
+        sessions: sessions.stats(),
+        rateLimiter: rateLimiter.stats(),
+        orderWatcher: orderWatcher ? orderWatcher.stats() : null,
+        apiCircuitBreaker: apiClient.circuitBreakerStats(),
+        eventStore: eventStore ? await eventStore.stats() : null,
       });
     });
 
+    // Metryki Prometheus
+    enableProcessMetrics();
+    app.get('/metrics', createMetricsHandler(config.metricsToken, () => metrics.sessionsActive.set(sessions.size)));
+
     // Info endpoint
     app.get('/', (_req, res) => {
       return res.json({
@@ -254,16 +264,19 @@ async function main(): Promise<void> {
         protocol: 'MCP Streamable HTTP (2025-06-18)',
         endpoints: {
           health: '/health',
+          metrics: '/metrics',
           mcp: '/mcp (GET, POST, DELETE)',
           test: '/test/verify-order',
+          ...(auditLog ? { audit: '/audit' } : {}),
+          ...(config.oauthResourceUrl ? { oauthProtectedResource: '/.well-known/oauth-protected-resource' } : {}),
         },
-        tools: ['verify_order', 'get_database_schema', 'execute_sql_limited'],
-        activeSessions: transports.size,
+        tools: toolDefinitions.map((tool) => tool.name),
+        activeSessions: sessions.size,
       });
     });
 
     // Test endpoint do weryfikacji zamówień bez MCP
-    app.post('/test/verify-order', async (req, res) => {
+    app.post('/test/verify-order', requireTestAuth, async (req, res) => {
       try {
         const { numer_zamowienia } = req.body;
 
@@ -273,7 +286,8 @@ async function main(): Promise<void> {
           });
         }
 
-        const result = await handleVerifyOrder(apiClient, { numer_zamowienia });
+        // Szczegóły audytu (SQL, liczba wierszy) są wewnętrzne - jak w odpowiedziach narzędzi MCP
+        const { audit: _audit, ...result } = await handleVerifyOrder(apiClient, { numer_zamowienia }, req.auth?.token);
         return res.json(result);
       } catch (error) {
         log('error', 'Błąd w test endpoint:', error);
@@ -283,6 +297,9 @@ async function main(): Promise<void> {
       }
     });
 
+    // Audyt wywołań narzędzi - te same filtry co w narzędziu get_audit_log (tylko administratorzy)
+    app.get('/audit', requireAuditAuth, createAuditHandler(auditLog));
+
     // ============================================================
     // MCP Streamable HTTP Endpoint - Zgodny z spec 2025-06-18
     // ============================================================
@@ -290,45 +307,86 @@ async function main(): Promise<void> {
     /**
      * POST /mcp - Główny endpoint dla żądań MCP
      */
-    app.post('/mcp', async (req, res) => {
+    app.post('/mcp', traceMcpRequest, requireAuth, async (req, res) => {
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
       try {
         let transport: StreamableHTTPServerTransport;
 
-        if (sessionId && transports.has(sessionId)) {
+        if (sessionId && sessions.has(sessionId)) {
+          if (!sessions.isOwnedBy(sessionId, SessionManager.tokenKey((req as any).authToken))) {
+            log('warn', `Odrzucono żądanie sesji ${sessionId} z innym tokenem`);
+            sendSessionForbidden(res, sessionId);
+            return;
+          }
+
           // Reużyj istniejącego transportu dla tej sesji
           log('info', `Reużywanie transportu dla sesji: ${sessionId}`);
-          transport = transports.get(sessionId)!;
+          transport = sessions.get(sessionId)!;
+          sessions.trackRequest(sessionId, res);
+        } else if (sessionId && sessions.evictionReason(sessionId)) {
+          // Sesja została zamknięta przez serwer
+          sendSessionEvicted(res, sessionId, sessions.evictionReason(sessionId)!);
+          return;
         } else if (!sessionId && isInitializeRequest(req.body)) {
           // Nowa sesja - inicjalizacja
           log('info', 'Inicjalizacja nowej sesji MCP');
 
           // Wyciągnij token z requesta (jeśli istnieje)
           const authToken = (req as any).authToken;
-
-          // Uwaga: eventStore jest opcjonalny i wymagany tylko dla resumability
-          // Na razie pomijamy go dla uproszczenia
+          const tokenKey = SessionManager.tokenKey(authToken);
+
+          // Sprawdź limity sesji (globalny i per token)
+          const limitExceeded = sessions.checkCapacity(tokenKey);
+          if (limitExceeded) {
+            log('warn', `Odrzucono nową sesję: ${limitExceeded.message}`);
+            return res.status(limitExceeded.statusCode).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32000,
+                message: limitExceeded.message,
+              },
+              id: null,
+            });
+          }
+
+          // ID sesji jest znane przed utworzeniem transportu, aby event store był ograniczony do tej sesji
+          // (ID standalone streamu GET jest wspólne dla wszystkich transportów)
+          const newSessionId = randomUUID();
           transport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: () => randomUUID(),
-            onsessioninitialized: (newSessionId) => {
-              log('info', `Sesja zainicjalizowana: ${newSessionId}`);
-              transports.set(newSessionId, transport);
+            sessionIdGenerator: () => newSessionId,
+            eventStore: eventStore ? sessionEventStore(eventStore, newSessionId) : undefined,
+            onsessioninitialized: (initializedSessionId) => {
+              log('info', `Sesja zainicjalizowana: ${initializedSessionId}`);
+              sessions.add(initializedSessionId, transport, tokenKey);
             },
           });
 
           // Obsługa zamknięcia transportu
           transport.onclose = () => {
             const sid = transport.sessionId;
-            if (sid && transports.has(sid)) {
+            if (sid && sessions.remove(sid)) {
               log('info', `Transport zamknięty dla sesji ${sid}`);
-              transports.delete(sid);
+            }
+            if (sid && eventStore) {
+              eventStore.clearSession(sid).catch((error) => {
+                log('error', `Błąd usuwania eventów sesji ${sid}:`, error);
+              });
             }
           };
 
           // Połącz transport z serwerem MCP
           // Przekaż token z Authorization header (jeśli istnieje)
-          const mcpServer = createMcpServer(apiClient, databaseClient, authToken);
+          const mcpServer = createMcpServer({
+            apiClient,
+            databaseClient,
+            bearerToken: authToken,
+            requireScopes: Boolean(config.oauthResourceUrl),
+            rateLimiter,
+            auditLog: auditLog ?? undefined,
+            orderWatcher,
+            clientIp: req.ip,
+          }, prompts);
           await mcpServer.connect(transport);
           await transport.handleRequest(req, res, req.body);
           return;
@@ -366,21 +424,34 @@ async function main(): Promise<void> {
     /**
      * GET /mcp - Endpoint dla SSE stream (opcjonalny w Streamable HTTP)
      */
-    app.get('/mcp', async (req, res) => {
+    app.get('/mcp', requireAuth, async (req, res) => {
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
-      if (!sessionId || !transports.has(sessionId)) {
+      if (sessionId && sessions.evictionReason(sessionId)) {
+        sendSessionEvicted(res, sessionId, sessions.evictionReason(sessionId)!);
+        return;
+      }
+
+      if (!sessionId || !sessions.has(sessionId)) {
         return res.status(400).send('Invalid or missing session ID');
       }
 
+      if (!sessions.isOwnedBy(sessionId, SessionManager.tokenKey((req as any).authToken))) {
+        log('warn', `Odrzucono żądanie sesji ${sessionId} z innym tokenem`);
+        sendSessionForbidden(res, sessionId);
+        return;
+      }
+
       const lastEventId = req.headers['last-event-id'] as string | undefined;
       if (lastEventId) {
         log('info', `Klient reconnecting z Last-Event-ID: ${lastEventId}`);
+        metrics.sseReconnects.inc();
       } else {
         log('info', `Nowy SSE stream dla sesji ${sessionId}`);
       }
 
-      const transport = transports.get(sessionId)!;
+      const transport = sessions.get(sessionId)!;
+      sessions.trackRequest(sessionId, res);
       await transport.handleRequest(req, res);
       return;
     });
@@ -388,17 +459,28 @@ async function main(): Promise<void> {
     /**
      * DELETE /mcp - Zakończenie sesji
      */
-    app.delete('/mcp', async (req, res) => {
+    app.delete('/mcp', requireAuth, async (req, res) => {
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
-      if (!sessionId || !transports.has(sessionId)) {
+      if (sessionId && sessions.evictionReason(sessionId)) {
+        sendSessionEvicted(res, sessionId, sessions.evictionReason(sessionId)!);
+        return;
+      }
+
+      if (!sessionId || !sessions.has(sessionId)) {
         return res.status(400).send('Invalid or missing session ID');
       }
 
+      if (!sessions.isOwnedBy(sessionId, SessionManager.tokenKey((req as any).authToken))) {
+        log('warn', `Odrzucono żądanie sesji ${sessionId} z innym tokenem`);
+        sendSessionForbidden(res, sessionId);
+        return;
+      }
+
       log('info', `Żądanie zakończenia sesji: ${sessionId}`);
 
       try {
-        const transport = transports.get(sessionId)!;
+        const transport = sessions.get(sessionId)!;
         await transport.handleRequest(req, res);
         return;
       } catch (error) {
@@ -425,16 +507,21 @@ async function main(): Promise<void> {
       log('info', 'Zamykanie serwera...');
 
       // Zamknij wszystkie aktywne transporty
-      for (const [sessionId, transport] of transports.entries()) {
+      for (const [sessionId, transport] of sessions.entries()) {
         try {
           log('info', `Zamykanie transportu dla sesji ${sessionId}`);
           await transport.close();
-          transports.delete(sessionId);
+          sessions.remove(sessionId);
         } catch (error) {
           log('error', `Błąd zamykania transportu ${sessionId}:`, error);
         }
       }
 
+      clearInterval(eventCleanupInterval);
+      clearInterval(sessionSweepInterval);
+      orderWatcher?.stop();
+      await shutdownTracing();
+
       log('info', 'Serwer zamknięty');
       process.exit(0);
     };
@@ -5,48 +5,37 @@
  * Serwer MCP dla systemu ERP - weryfikacja zamówień
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 
 import { getConfig, validateConfig } from './config/index.js';
 import { ApiClient } from './services/apiClient.js';
+import { OrderWatcher } from './services/orderWatcher.js';
 import { DatabaseClient } from './services/databaseClient.js';
-import { verifyOrderTool, handleVerifyOrder } from './tools/orderVerification.js';
-import {
-  getDatabaseSchemaTool,
-  executeSQLLimitedTool,
-  handleGetDatabaseSchema,
-  handleExecuteSQLLimited,
-} from './tools/databaseTools.js';
-
-/**
- * Logowanie
- */
-function log(level: string, message: string, ...args: unknown[]): void {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
-
-  if (level === 'error') {
-    console.error(logMessage, ...args);
-  } else {
-    console.log(logMessage, ...args);
-  }
-}
+import { registerTools, type ToolContext } from './tools/registry.js';
+import { registerResources } from './resources/registry.js';
+import { loadPromptDefinitions, registerPrompts } from './prompts/registry.js';
+import { RateLimiter } from './services/rateLimiter.js';
+import { createAuditLogger } from './services/auditLog.js';
+import { initTracing, shutdownTracing } from './services/tracing.js';
+import { configureLogger, log } from './helpers/logger.js';
 
 /**
  * Główna funkcja serwera
  */
 async function main(): Promise<void> {
+  // stdout jest kanałem JSON-RPC - wszystkie logi trafiają na stderr
+  configureLogger({ stderrOnly: true });
   log('info', 'Uruchamianie Express ERP MCP Server...');
 
   try {
     // Wczytaj i waliduj konfigurację
     const config = getConfig();
     validateConfig(config);
+    configureLogger({ level: config.logLevel, format: config.logFormat });
+    if (initTracing(config)) {
+      log('info', `Tracing OpenTelemetry włączony [${config.tracingExporter}]`);
+    }
     log('info', 'Konfiguracja załadowana pomyślnie');
 
     // Utwórz klienta API
@@ -62,8 +51,17 @@ async function main(): Promise<void> {
       log('warn', 'Klient bazy danych nie został skonfigurowany. Narzędzia database będą niedostępne.');
     }
 
+    // Audyt wywołań narzędzi (AUDIT_LOG)
+    const auditLog = createAuditLogger(config, (error) => log('error', 'Błąd zapisu audytu:', error));
+
+    // Obserwowanie subskrybowanych zamówień (ORDER_WATCH_INTERVAL, 0 wyłącza subskrypcje)
+    const orderWatcher = config.orderWatchInterval > 0 ? new OrderWatcher(apiClient, config) : undefined;
+
+    // Prompty MCP: wbudowane i z katalogu PROMPTS_DIR
+    const prompts = await loadPromptDefinitions(config.promptsDir);
+
     // Utwórz serwer MCP
-    const server = new Server(
+    const server = new McpServer(
       {
         name: 'express-erp-mcp',
         version: '1.0.0',
@@ -71,40 +69,28 @@ async function main(): Promise<void> {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    // Zarejestruj handler dla list_tools
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      log('info', 'Otrzymano żądanie list_tools');
-      return {
-        tools: [verifyOrderTool, getDatabaseSchemaTool, executeSQLLimitedTool],
-      };
-    });
-
-    // Zarejestruj handler dla call_tool
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      log('info', `Otrzymano żądanie call_tool: ${name}`);
-
-      if (name === 'verify_order') {
-        return await handleVerifyOrder(apiClient, args);
-      }
-
-      if (name === 'get_database_schema') {
-        return await handleGetDatabaseSchema(databaseClient, args);
-      }
-
-      if (name === 'execute_sql_limited') {
-        return await handleExecuteSQLLimited(databaseClient, args);
-      }
-
-      throw new Error(`Nieznane narzędzie: ${name}`);
-    });
+    // Zarejestruj narzędzia, zasoby i prompty z rejestrów
+    // W trybie stdio serwer działa lokalnie dla jednego użytkownika - jego tożsamością jest skonfigurowany token
+    const context: ToolContext = {
+      apiClient,
+      databaseClient,
+      bearerToken: config.supabaseBearerToken,
+      rateLimiter: new RateLimiter(config),
+      auditLog: auditLog ?? undefined,
+      orderWatcher,
+    };
+    registerTools(server, context, log);
+    registerResources(server, context, log);
+    registerPrompts(server, context, prompts, log);
 
     // Obsługa błędów serwera
-    server.onerror = (error) => {
+    server.server.onerror = (error) => {
       log('error', 'Błąd serwera:', error);
     };
 
@@ -134,15 +120,15 @@ async function main(): Promise<void> {
   }
 }
 
-// Obsługa sygnałów zakończenia
+// Obsługa sygnałów zakończenia (wysłanie pozostałych spanów przed wyjściem)
 process.on('SIGINT', () => {
   log('info', 'Otrzymano SIGINT, zamykanie serwera...');
-  process.exit(0);
+  shutdownTracing().finally(() => process.exit(0));
 });
 
 process.on('SIGTERM', () => {
   log('info', 'Otrzymano SIGTERM, zamykanie serwera...');
-  process.exit(0);
+  shutdownTracing().finally(() => process.exit(0));
 });
 
 // Obsługa nieobsłużonych błędów
@@ -0,0 +1,120 @@
+/**
+ * Wbudowane prompty dla typowych procesów obsługi klienta
+ */
+
+import type { PromptDefinitionInput } from './registry.js';
+
+/**
+ * Analiza reklamacji z aktualnymi danymi zamówienia
+ */
+const complaintTriagePrompt: PromptDefinitionInput = {
+  name: 'complaint_triage',
+  title: 'Complaint Triage',
+  description: 'Triage a customer complaint about an order: checks the order in the ERP system and drafts a reply',
+  arguments: [
+    { name: 'numer_zamowienia', description: 'Order number the complaint refers to (e.g. OP1001)' },
+    {
+      name: 'opis_reklamacji',
+      description: 'Complaint text from the customer (optional)',
+      required: false,
+      default: '(brak treści zgłoszenia - poproś użytkownika o szczegóły)',
+    },
+  ],
+  data: {
+    order: { type: 'order', numer_zamowienia: '{{numer_zamowienia}}' },
+  },
+  template: `Przeanalizuj reklamację dotyczącą zamówienia {{numer_zamowienia}}.
+
+Zgłoszenie klienta:
+{{opis_reklamacji}}
+
+Aktualne dane zamówienia z systemu ERP:
+{{data.order}}
+
+Zadania:
+1. Sprawdź, czy zamówienie istnieje i czy dane klienta zgadzają się ze zgłoszeniem.
+2. Oceń zgłoszenie: kategoria (uszkodzenie, opóźnienie, niezgodność z zamówieniem, płatność, inne) i pilność (niska, średnia, wysoka). Uwzględnij status zamówienia.
+3. Jeśli potrzebujesz więcej danych (inne zamówienia klienta, wcześniejsze zgłoszenia), sprawdź strukturę bazy narzędziem get_database_schema i użyj execute_sql_limited z parametrami $1, $2 - nie wklejaj wartości do SQL. Po numerze zamówienia zawsze możesz ponownie wywołać verify_order.
+4. Zaproponuj dalsze kroki dla zespołu obsługi i przygotuj projekt odpowiedzi dla klienta (uprzejmie, po polsku, bez obietnic, których nie potwierdzają dane).`,
+};
+
+/**
+ * Podsumowanie klienta i jego zamówień
+ */
+const customerSummaryPrompt: PromptDefinitionInput = {
+  name: 'customer_summary',
+  title: 'Customer Summary',
+  description: 'Summarise a customer and their orders by e-mail address',
+  arguments: [{ name: 'email', description: 'Customer e-mail address' }],
+  data: {
+    customer: { type: 'sql', query: 'SELECT * FROM "Klienci" WHERE email = $1', params: ['{{email}}'], limit: 5 },
+    orders: {
+      type: 'sql',
+      query: 'SELECT z.* FROM "Zamowienia" z JOIN "Klienci" k ON k.id = z.id_klienta WHERE k.email = $1',
+      params: ['{{email}}'],
+      limit: 50,
+    },
+  },
+  template: `Przygotuj podsumowanie klienta {{email}}.
+
+Dane klienta:
+{{data.customer}}
+
+Zamówienia klienta:
+{{data.orders}}
+
+Podsumowanie powinno zawierać:
+1. Dane kontaktowe klienta.
+2. Liczbę zamówień, ich łączną wartość i podział według statusu.
+3. Zamówienia wymagające uwagi (np. długo w realizacji, anulowane).
+4. Krótką rekomendację dla zespołu obsługi.
+
+Szczegóły pojedynczego zamówienia sprawdzisz narzędziem verify_order. Jeśli powyższe dane są niedostępne lub niepełne, sprawdź strukturę bazy narzędziem get_database_schema i użyj execute_sql_limited z adresem e-mail jako parametrem $1.`,
+};
+
+/**
+ * Dzienny raport zamówień - zamówienia dnia pobierane po kolumnie created_at (domyślna kolumna tabel Supabase)
+ * Data trafia do zapytań wyłącznie jako parametr $1; struktura tabeli pozwala modelowi poprawić zapytanie,
+ * jeśli tabela ma inną kolumnę daty
+ */
+const dailyOrderReportPrompt: PromptDefinitionInput = {
+  name: 'daily_order_report',
+  title: 'Daily Order Report',
+  description: 'Build a report of orders placed on a given day (counts and values by status)',
+  arguments: [{ name: 'date', description: 'Report date in YYYY-MM-DD format', pattern: '^\\d{4}-\\d{2}-\\d{2}$' }],
+  data: {
+    by_status: {
+      type: 'sql',
+      query:
+        'SELECT status, COUNT(*) AS liczba, SUM(wartosc_calkowita) AS wartosc FROM "Zamowienia" ' +
+        'WHERE created_at >= $1::date AND created_at < $1::date + 1 GROUP BY status ORDER BY status',
+      params: ['{{date}}'],
+      limit: 50,
+    },
+    orders: {
+      type: 'sql',
+      query:
+        'SELECT * FROM "Zamowienia" WHERE created_at >= $1::date AND created_at < $1::date + 1 ORDER BY wartosc_calkowita DESC',
+      params: ['{{date}}'],
+      limit: 100,
+    },
+    orders_table: { type: 'table_schema', table: 'Zamowienia' },
+  },
+  template: `Przygotuj raport zamówień z dnia {{date}}.
+
+Zamówienia dnia według statusu:
+{{data.by_status}}
+
+Zamówienia dnia (od największej wartości):
+{{data.orders}}
+
+Struktura tabeli "Zamowienia":
+{{data.orders_table}}
+
+Kroki:
+1. Sprawdź, czy powyższe dane są kompletne. Jeśli są niedostępne (np. tabela nie ma kolumny created_at) lub lista zamówień jest obcięta, wybierz kolumnę daty złożenia zamówienia na podstawie struktury tabeli i wywołaj execute_sql_limited z params ["{{date}}"] - nie wklejaj daty do SQL.
+2. Powiąż największe zamówienia dnia z klientami przez tabelę "Klienci".
+3. Przedstaw raport: liczba i wartość zamówień łącznie oraz według statusu, największe zamówienia, obserwacje (np. nietypowo dużo anulowanych).`,
+};
+
+export const builtinPrompts: PromptDefinitionInput[] = [complaintTriagePrompt, customerSummaryPrompt, dailyOrderReportPrompt];
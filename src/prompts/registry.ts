@@ -0,0 +1,366 @@
+/**
+ * Rejestr promptów MCP (prompts/list, prompts/get)
+ * Szablony z argumentami i danymi pobieranymi na żywo z API ERP i bazy danych
+ * Wbudowane prompty można nadpisać lub uzupełnić plikami JSON z katalogu PROMPTS_DIR
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { GetPromptResult, ServerRequest, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+import type { AuditOutcome } from '../types/index.js';
+import { formatRows } from '../helpers/resultFormatter.js';
+import { currentCorrelationId, withCorrelationId } from '../helpers/logger.js';
+import { withSpan } from '../services/tracing.js';
+import { consumeRateLimit, missingScopes, rateLimitMessage, recordAudit, requestContext } from '../tools/registry.js';
+import type { ToolClient, ToolContext, ToolHandlerContext, ToolLogger } from '../tools/registry.js';
+import { builtinPrompts } from './builtinPrompts.js';
+
+/**
+ * Placeholder w szablonie: {{argument}} lub {{data.klucz}}
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+/**
+ * Źródło danych promptu - wartości tekstowe mogą zawierać {{argument}}
+ * SQL przyjmuje argumenty wyłącznie jako parametry $1, $2, ... (nigdy w treści zapytania)
+ */
+const promptDataSourceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('order'),
+    numer_zamowienia: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('sql'),
+    query: z.string().min(10).refine((query) => !query.includes('{{'), {
+      message: 'SQL query must not contain {{placeholders}} - pass arguments as params ($1, $2, ...)',
+    }),
+    params: z.array(z.string()).max(100).default([]),
+    limit: z.number().int().min(1).max(1000).default(20),
+  }),
+  z.object({
+    type: z.literal('table_schema'),
+    table: z.string().min(1).max(63),
+    schema: z.string().min(1).max(63).default('public'),
+  }),
+]);
+
+/**
+ * Definicja promptu (format plików JSON w PROMPTS_DIR)
+ */
+export const promptDefinitionSchema = z
+  .object({
+    name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'name must be snake_case'),
+    title: z.string().min(1).optional(),
+    description: z.string().min(1),
+    arguments: z
+      .array(
+        z.object({
+          name: z.string().regex(IDENTIFIER_PATTERN),
+          description: z.string().optional(),
+          required: z.boolean().default(true),
+          /** Wartość wstawiana, gdy opcjonalny argument nie został podany */
+          default: z.string().optional(),
+          /** Wyrażenie regularne, które musi spełniać wartość argumentu */
+          pattern: z.string().optional(),
+        })
+      )
+      .default([]),
+    data: z.record(z.string().regex(IDENTIFIER_PATTERN), promptDataSourceSchema).default({}),
+    /** Treść wiadomości użytkownika - {{argument}} i {{data.klucz}} są zastępowane wartościami */
+    template: z.string().min(1),
+  })
+  .superRefine((prompt, ctx) => {
+    const argumentNames = new Set(prompt.arguments.map((argument) => argument.name));
+    const checkPlaceholders = (text: string, where: string, allowData: boolean) => {
+      for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+        const known = name.startsWith('data.')
+          ? allowData && name.slice('data.'.length) in prompt.data
+          : argumentNames.has(name);
+        if (!known) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown placeholder {{${name}}} in ${where}` });
+        }
+      }
+    };
+
+    checkPlaceholders(prompt.template, 'template', true);
+    for (const [key, source] of Object.entries(prompt.data)) {
+      const values =
+        source.type === 'order' ? [source.numer_zamowienia] : source.type === 'sql' ? source.params : [source.table, source.schema];
+      values.forEach((value) => checkPlaceholders(value, `data.${key}`, false));
+    }
+    for (const argument of prompt.arguments) {
+      if (argument.pattern !== undefined) {
+        try {
+          new RegExp(argument.pattern);
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid pattern of argument ${argument.name}` });
+        }
+      }
+    }
+  });
+
+export type PromptDefinition = z.output<typeof promptDefinitionSchema>;
+
+/**
+ * Definicja promptu w postaci źródłowej (domyślne wartości pól są opcjonalne)
+ */
+export type PromptDefinitionInput = z.input<typeof promptDefinitionSchema>;
+
+type PromptDataSource = z.output<typeof promptDataSourceSchema>;
+
+/**
+ * Klient i zakres OAuth wymagane przez źródło danych
+ */
+const DATA_SOURCE_REQUIREMENTS: Record<PromptDataSource['type'], { client: ToolClient; scope: string }> = {
+  order: { client: 'apiClient', scope: 'orders:read' },
+  sql: { client: 'databaseClient', scope: 'database:query' },
+  table_schema: { client: 'databaseClient', scope: 'database:schema' },
+};
+
+/**
+ * Wczytuje prompty: wbudowane oraz pliki *.json z katalogu (prompt o tej samej nazwie zastępuje wbudowany)
+ * @param dir - Katalog z definicjami (PROMPTS_DIR); bez niego tylko prompty wbudowane
+ */
+export async function loadPromptDefinitions(dir?: string): Promise<PromptDefinition[]> {
+  const prompts = new Map<string, PromptDefinition>();
+  for (const prompt of builtinPrompts) {
+    prompts.set(prompt.name, promptDefinitionSchema.parse(prompt));
+  }
+
+  if (!dir) {
+    return [...prompts.values()];
+  }
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  } catch (error) {
+    throw new Error(`PROMPTS_DIR cannot be read (${dir}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid prompt definition ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = promptDefinitionSchema.safeParse(content);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(`Invalid prompt definition ${filePath}: ${issues.join('; ')}`);
+    }
+    prompts.set(parsed.data.name, parsed.data);
+  }
+
+  return [...prompts.values()];
+}
+
+/**
+ * Klienci wymagani przez prompt (z jego źródeł danych)
+ */
+function requiredClients(prompt: PromptDefinition): ToolClient[] {
+  return [...new Set(Object.values(prompt.data).map((source) => DATA_SOURCE_REQUIREMENTS[source.type].client))];
+}
+
+/**
+ * Zakresy OAuth wymagane przez prompt (z jego źródeł danych)
+ */
+function requiredScopes(prompt: PromptDefinition): string[] {
+  return [...new Set(Object.values(prompt.data).map((source) => DATA_SOURCE_REQUIREMENTS[source.type].scope))];
+}
+
+/**
+ * Schemat argumentów promptu dla SDK (argumenty promptów MCP są tekstowe)
+ */
+function argsSchemaOf(prompt: PromptDefinition): Record<string, z.ZodString | z.ZodOptional<z.ZodString>> {
+  const shape: Record<string, z.ZodString | z.ZodOptional<z.ZodString>> = {};
+  for (const argument of prompt.arguments) {
+    let schema = z.string();
+    if (argument.pattern !== undefined) {
+      schema = schema.regex(new RegExp(argument.pattern), `${argument.name} must match ${argument.pattern}`);
+    }
+    if (argument.description) {
+      schema = schema.describe(argument.description);
+    }
+    shape[argument.name] = argument.required ? schema.min(1) : schema.optional();
+  }
+  return shape;
+}
+
+/**
+ * Rejestruje prompty w serwerze MCP
+ * Prompty, których źródła danych wymagają niedostępnych klientów, są pomijane
+ * @param server - Serwer MCP
+ * @param context - Klienci i token przekazywane do źródeł danych (ten sam kontekst co dla narzędzi)
+ * @param prompts - Definicje promptów (loadPromptDefinitions)
+ * @param log - Funkcja logowania (opcjonalna)
+ */
+export function registerPrompts(server: McpServer, context: ToolContext, prompts: PromptDefinition[], log?: ToolLogger): void {
+  for (const prompt of prompts) {
+    const missing = requiredClients(prompt).filter((client) => !context[client]);
+    if (missing.length > 0) {
+      log?.('warn', `Prompt ${prompt.name} pominięty - brak: ${missing.join(', ')}`);
+      continue;
+    }
+
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema: argsSchemaOf(prompt) },
+      (args: Record<string, string | undefined>, extra) =>
+        withCorrelationId(currentCorrelationId() ?? randomUUID(), () => getPrompt(prompt, args, context, extra, log))
+    );
+  }
+}
+
+/**
+ * Zapytania SQL i wiersze pobrane dla promptu (do audytu)
+ */
+interface PromptDataUsage {
+  sql: string[];
+  rowCount: number;
+}
+
+/**
+ * Buduje prompt: pobiera dane źródeł równolegle i wstawia je do szablonu
+ * Każde prompts/get podlega limitom wywołań i trafia do audytu jednym wpisem jako prompt/<nazwa>
+ */
+async function getPrompt(
+  prompt: PromptDefinition,
+  args: Record<string, string | undefined>,
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  log?: ToolLogger
+): Promise<GetPromptResult> {
+  return withSpan(`prompt ${prompt.name}`, { attributes: { 'mcp.prompt.name': prompt.name } }, async () => {
+    log?.('info', `Prompt ${prompt.name} z argumentami:`, args);
+
+    const name = `prompt/${prompt.name}`;
+    const startedAt = Date.now();
+    const usage: PromptDataUsage = { sql: [], rowCount: 0 };
+    const audit = (outcome: AuditOutcome, error?: string | null) =>
+      recordAudit(context, extra, {
+        name,
+        arguments: args,
+        startedAt,
+        outcome,
+        error,
+        sql: usage.sql.join(';\n') || undefined,
+        rowCount: usage.sql.length > 0 ? usage.rowCount : undefined,
+      });
+
+    const missing = missingScopes(requiredScopes(prompt), context, extra);
+    if (missing.length > 0) {
+      log?.('warn', `Odmowa promptu ${prompt.name} - brak zakresów: ${missing.join(', ')}`);
+      const message = `Token does not include scopes required by ${prompt.name}: ${missing.join(', ')}`;
+      await audit('denied', message);
+      throw new McpError(ErrorCode.InvalidRequest, message);
+    }
+
+    const decision = consumeRateLimit(name, context, extra, log);
+    if (!decision.allowed) {
+      const message = rateLimitMessage(decision);
+      await audit('rate_limited', message);
+      throw new McpError(ErrorCode.InvalidRequest, message, {
+        error: 'rate_limited',
+        limit_type: decision.kind,
+        limit: decision.limit,
+        retry_after: decision.retryAfter,
+      });
+    }
+
+    const values: Record<string, string> = {};
+    for (const argument of prompt.arguments) {
+      values[argument.name] = args[argument.name] || argument.default || '';
+    }
+
+    const handlerContext = requestContext(context, extra);
+    // Błędy źródeł nie przerywają promptu - trafiają do treści i do pola error audytu
+    const failures: string[] = [];
+    const entries = await Promise.all(
+      Object.entries(prompt.data).map(async ([key, source]) => {
+        try {
+          return [`data.${key}`, await fetchData(source, values, handlerContext, usage)] as const;
+        } catch (error) {
+          log?.('warn', `Nie udało się pobrać danych ${key} promptu ${prompt.name}:`, error);
+          const message = error instanceof Error ? error.message : String(error);
+          failures.push(`data.${key}: ${message}`);
+          return [`data.${key}`, `(dane niedostępne: ${message})`] as const;
+        }
+      })
+    );
+    Object.assign(values, Object.fromEntries(entries));
+
+    await audit(extra.signal.aborted ? 'cancelled' : 'success', failures.join('\n') || null);
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text: fillPlaceholders(prompt.template, values) } }],
+    };
+  });
+}
+
+/**
+ * Zastępuje placeholdery {{nazwa}} wartościami
+ */
+function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Pobiera dane źródła z uprawnieniami wywołującego (RLS) i formatuje je do wstawienia w prompt
+ */
+async function fetchData(
+  source: PromptDataSource,
+  values: Record<string, string>,
+  context: ToolHandlerContext,
+  usage: PromptDataUsage
+): Promise<string> {
+  switch (source.type) {
+    case 'order': {
+      const numerZamowienia = fillPlaceholders(source.numer_zamowienia, values);
+      const result = await context.apiClient.verifyOrder(numerZamowienia, context.bearerToken);
+      return result.zamowienieIstnieje && result.daneZamowienia
+        ? JSON.stringify(result.daneZamowienia, null, 2)
+        : `(zamówienie ${numerZamowienia} nie istnieje w systemie lub nie jest widoczne dla użytkownika)`;
+    }
+    case 'sql': {
+      const params = source.params.map((param) => fillPlaceholders(param, values));
+      const result = await context.databaseClient.executeSQLWithLimit(source.query, source.limit, 0, params, undefined, context.bearerToken);
+      usage.sql.push(result.executed_sql);
+      usage.rowCount += result.count;
+      if (result.data.length === 0) {
+        return '(brak wierszy)';
+      }
+      return formatRows(result.data, 'markdown') + (result.has_more ? `\n(pokazano pierwsze ${result.count} wierszy)` : '');
+    }
+    case 'table_schema': {
+      const table = fillPlaceholders(source.table, values);
+      const schema = fillPlaceholders(source.schema, values);
+      const response = await context.databaseClient.getDatabaseSchema(true, false, schema, false, context.bearerToken);
+      const tableInfo = response.tables.find((item) => item.table_name === table);
+      if (!tableInfo) {
+        return `(tabela ${schema}.${table} nie istnieje lub nie jest widoczna dla użytkownika)`;
+      }
+
+      const columns = tableInfo.columns.map(
+        (column) => `- ${column.column_name}: ${column.data_type}${column.is_nullable === 'YES' ? ' (NULL)' : ''}`
+      );
+      const foreignKeys = (tableInfo.foreign_keys || []).map(
+        (foreignKey) => `- ${foreignKey.column_name} -> "${foreignKey.foreign_table_name}".${foreignKey.foreign_column_name}`
+      );
+      return [...columns, ...(foreignKeys.length > 0 ? ['Klucze obce:', ...foreignKeys] : [])].join('\n');
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Zasoby MCP z danymi zamówień z API ERP
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ResourceDefinition } from './registry.js';
+import { RESOURCE_NOT_FOUND } from './registry.js';
+
+/**
+ * URI zasobu zamówienia
+ */
+export function orderResourceUri(numerZamowienia: string): string {
+  return `erp://orders/${encodeURIComponent(numerZamowienia)}`;
+}
+
+/**
+ * Numer zamówienia z URI zasobu (null, jeśli URI nie wskazuje zamówienia)
+ * @throws McpError InvalidParams dla błędnego kodowania procentowego (np. erp://orders/%E0)
+ */
+export function orderNumberFromUri(uri: string): string | null {
+  const match = /^erp:\/\/orders\/([^/?#]+)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI ${uri}: malformed percent-encoding`);
+  }
+}
+
+/**
+ * Definicja zasobu erp://orders/{numer_zamowienia}
+ * Zamówień nie da się wylistować przez API weryfikacji - zasób jest dostępny tylko przez szablon URI
+ */
+export const orderResource: ResourceDefinition = {
+  name: 'order',
+  title: 'ERP Order',
+  description:
+    'Order details from the ERP system (status, total value, customer) as returned by verify_order. ' +
+    'Example: erp://orders/OP1001. Row Level Security of the caller\'s token applies.',
+  uriTemplate: 'erp://orders/{numer_zamowienia}',
+  mimeType: 'application/json',
+  requires: ['apiClient'],
+  scopes: ['orders:read'],
+  read: async (uri, { numer_zamowienia }, { apiClient, bearerToken }) => {
+    const result = await apiClient.verifyOrder(numer_zamowienia, bearerToken);
+    if (!result.zamowienieIstnieje || !result.daneZamowienia) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri.href} (order does not exist or is not visible)`);
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(result.daneZamowienia, null, 2),
+        },
+      ],
+    };
+  },
+};
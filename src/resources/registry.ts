@@ -0,0 +1,226 @@
+/**
+ * Rejestr zasobów MCP (resources)
+ * Szablony URI erp://... montowane przez wszystkie transporty obok narzędzi
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ListResourcesResult, ReadResourceResult, ServerRequest, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+import type { AuditOutcome } from '../types/index.js';
+import { currentCorrelationId, withCorrelationId } from '../helpers/logger.js';
+import { withSpan } from '../services/tracing.js';
+import type { OrderWatcher } from '../services/orderWatcher.js';
+import { consumeRateLimit, missingScopes, rateLimitMessage, recordAudit, requestContext } from '../tools/registry.js';
+import type { ToolClient, ToolContext, ToolHandlerContext, ToolLogger } from '../tools/registry.js';
+import { tableSchemaResource } from './schemaResources.js';
+import { orderNumberFromUri, orderResource } from './orderResources.js';
+
+/**
+ * Kod błędu MCP dla nieistniejącego zasobu (spoza ErrorCode SDK)
+ */
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Zmienne z URI dopasowanego do szablonu (zdekodowane)
+ */
+export type ResourceVariables = Record<string, string>;
+
+/**
+ * Definicja zasobu MCP opisanego szablonem URI
+ */
+export interface ResourceDefinition {
+  name: string;
+  title: string;
+  description: string;
+  /** Szablon URI (RFC 6570), np. erp://orders/{numer_zamowienia} */
+  uriTemplate: string;
+  mimeType: string;
+  requires: ToolClient[];
+  /** Zakresy OAuth wymagane do listowania i odczytu */
+  scopes: string[];
+  /** Konkretne zasoby dla resources/list (brak - zasób dostępny tylko przez szablon) */
+  list?: (context: ToolHandlerContext) => Promise<ListResourcesResult['resources']>;
+  read: (uri: URL, variables: ResourceVariables, context: ToolHandlerContext) => Promise<ReadResourceResult>;
+}
+
+/**
+ * Wszystkie zasoby serwera
+ */
+export const resourceDefinitions: ResourceDefinition[] = [tableSchemaResource, orderResource];
+
+/**
+ * Rejestruje zasoby z rejestru w serwerze MCP
+ * Zasoby, których wymagani klienci nie są dostępni w kontekście, są pomijane
+ * @param server - Serwer MCP
+ * @param context - Klienci i token przekazywane do handlerów (ten sam kontekst co dla narzędzi)
+ * @param log - Funkcja logowania (opcjonalna)
+ */
+export function registerResources(server: McpServer, context: ToolContext, log?: ToolLogger): void {
+  for (const resource of resourceDefinitions) {
+    const missing = resource.requires.filter((client) => !context[client]);
+    if (missing.length > 0) {
+      log?.('warn', `Zasób ${resource.name} pominięty - brak: ${missing.join(', ')}`);
+      continue;
+    }
+
+    const list = resource.list;
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list: list
+        ? async (extra) => {
+            // Lista jest zbierana ze wszystkich szablonów - błąd jednego (np. brak tokena) nie może jej zablokować
+            if (missingScopes(resource.scopes, context, extra).length > 0) {
+              return { resources: [] };
+            }
+            try {
+              return { resources: await list(requestContext(context, extra)) };
+            } catch (error) {
+              log?.('warn', `Nie udało się wylistować zasobów ${resource.name}:`, error);
+              return { resources: [] };
+            }
+          }
+        : undefined,
+    });
+
+    server.registerResource(
+      resource.name,
+      template,
+      { title: resource.title, description: resource.description, mimeType: resource.mimeType },
+      (uri, variables, extra) =>
+        withCorrelationId(currentCorrelationId() ?? randomUUID(), () => readResource(resource, uri, variables, context, extra, log))
+    );
+  }
+
+  if (context.orderWatcher && context.apiClient) {
+    registerOrderSubscriptions(server, context, context.orderWatcher, log);
+  }
+}
+
+/**
+ * Obsługa resources/subscribe i resources/unsubscribe dla zasobów erp://orders/{numer_zamowienia}
+ * Subskrypcje sesji są usuwane po zamknięciu jej transportu
+ */
+function registerOrderSubscriptions(server: McpServer, context: ToolContext, orderWatcher: OrderWatcher, log?: ToolLogger): void {
+  // Jeden serwer MCP obsługuje jedną sesję (połączenie)
+  const subscriberId = randomUUID();
+
+  const resolveOrder = (uri: string, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+    const numerZamowienia = orderNumberFromUri(uri);
+    if (!numerZamowienia || numerZamowienia.length > 50) {
+      throw new McpError(ErrorCode.InvalidParams, `Subscriptions are supported only for erp://orders/{numer_zamowienia} resources: ${uri}`);
+    }
+
+    const missing = missingScopes(orderResource.scopes, context, extra);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `Token does not include scopes required by ${orderResource.name}: ${missing.join(', ')}`);
+    }
+
+    return { numerZamowienia, token: requestContext(context, extra).bearerToken };
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const { numerZamowienia, token } = resolveOrder(uri, extra);
+
+    try {
+      await orderWatcher.subscribe(subscriberId, numerZamowienia, token, () => server.server.sendResourceUpdated({ uri }));
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidRequest, error instanceof Error ? error.message : String(error));
+    }
+
+    log?.('info', `Subskrypcja zasobu ${uri}`);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const { numerZamowienia, token } = resolveOrder(uri, extra);
+
+    if (orderWatcher.unsubscribe(subscriberId, numerZamowienia, token)) {
+      log?.('info', `Koniec subskrypcji zasobu ${uri}`);
+    }
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    const removed = orderWatcher.removeSubscriber(subscriberId);
+    if (removed > 0) {
+      log?.('info', `Usunięto subskrypcje zamkniętej sesji: ${removed}`);
+    }
+  };
+}
+
+/**
+ * Odczytuje zasób w spanie śladu po sprawdzeniu zakresów OAuth i limitów wywołań
+ * Każdy odczyt jest zapisywany w audycie jako resource/<nazwa>, tak jak wywołania narzędzi
+ */
+async function readResource(
+  resource: ResourceDefinition,
+  uri: URL,
+  variables: Record<string, string | string[]>,
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  log?: ToolLogger
+): Promise<ReadResourceResult> {
+  return withSpan(`resource ${resource.name}`, { attributes: { 'mcp.resource.uri': uri.href } }, async () => {
+    log?.('info', `Odczyt zasobu ${uri.href}`);
+
+    const name = `resource/${resource.name}`;
+    const startedAt = Date.now();
+    const audit = (outcome: AuditOutcome, error?: string) =>
+      recordAudit(context, extra, { name, arguments: { uri: uri.href }, startedAt, outcome, error });
+
+    const missing = missingScopes(resource.scopes, context, extra);
+    if (missing.length > 0) {
+      log?.('warn', `Odmowa odczytu ${uri.href} - brak zakresów: ${missing.join(', ')}`);
+      const message = `Token does not include scopes required by ${resource.name}: ${missing.join(', ')}`;
+      await audit('denied', message);
+      throw new McpError(ErrorCode.InvalidRequest, message);
+    }
+
+    const decision = consumeRateLimit(name, context, extra, log);
+    if (!decision.allowed) {
+      const message = rateLimitMessage(decision);
+      await audit('rate_limited', message);
+      throw new McpError(ErrorCode.InvalidRequest, message, {
+        error: 'rate_limited',
+        limit_type: decision.kind,
+        limit: decision.limit,
+        retry_after: decision.retryAfter,
+      });
+    }
+
+    try {
+      // Zmienne szablonu są zakodowane w URI (np. nazwy tabel z wielkimi literami i spacjami)
+      const decoded: ResourceVariables = {};
+      for (const [key, value] of Object.entries(variables)) {
+        decoded[key] = decodeVariable(uri, Array.isArray(value) ? value.join(',') : value);
+      }
+
+      const result = await resource.read(uri, decoded, requestContext(context, extra));
+      await audit('success');
+      return result;
+    } catch (error) {
+      await audit(extra.signal.aborted ? 'cancelled' : 'error', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  });
+}
+
+/**
+ * Dekoduje zmienną szablonu URI (np. %20) - błędne kodowanie procentowe (np. %E0) to niepoprawny URI
+ */
+function decodeVariable(uri: URL, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI ${uri.href}: malformed percent-encoding`);
+  }
+}
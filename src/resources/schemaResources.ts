@@ -0,0 +1,81 @@
+/**
+ * Zasoby MCP ze strukturą tabel bazy danych
+ */
+
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ForeignKeyInfo, TableInfo } from '../types/index.js';
+import type { ResourceDefinition } from './registry.js';
+import { RESOURCE_NOT_FOUND } from './registry.js';
+
+/**
+ * Schemat listowany w resources/list (tabele innych schematów są dostępne przez szablon URI)
+ */
+const LISTED_SCHEMA = 'public';
+
+/**
+ * URI zasobu tabeli (nazwy zakodowane - mogą zawierać wielkie litery i znaki specjalne)
+ */
+export function tableResourceUri(schema: string, table: string): string {
+  return `erp://schema/${encodeURIComponent(schema)}/${encodeURIComponent(table)}`;
+}
+
+/**
+ * Zawartość zasobu tabeli: kolumny, klucze obce, indeksy i klucze obce innych tabel wskazujące na tę tabelę
+ */
+interface TableResourceContent extends TableInfo {
+  referenced_by: ForeignKeyInfo[];
+}
+
+/**
+ * Definicja zasobu erp://schema/{schema}/{table}
+ */
+export const tableSchemaResource: ResourceDefinition = {
+  name: 'table_schema',
+  title: 'Database Table Schema',
+  description:
+    'Column, foreign key and index metadata of a database table (as in get_database_schema). ' +
+    'Only tables visible with the caller\'s RLS permissions are listed and readable.',
+  uriTemplate: 'erp://schema/{schema}/{table}',
+  mimeType: 'application/json',
+  requires: ['databaseClient'],
+  scopes: ['database:schema'],
+  list: async ({ databaseClient, bearerToken }) => {
+    const schema = await databaseClient.getDatabaseSchema(false, false, LISTED_SCHEMA, false, bearerToken);
+    return schema.tables.map((table) => ({
+      uri: tableResourceUri(LISTED_SCHEMA, table.table_name),
+      name: `${LISTED_SCHEMA}.${table.table_name}`,
+      title: table.table_name,
+      description: `Tabela ${LISTED_SCHEMA}.${table.table_name}, liczba kolumn: ${table.columns.length}`,
+      mimeType: 'application/json',
+    }));
+  },
+  read: async (uri, { schema, table }, { databaseClient, bearerToken }) => {
+    if (!schema || schema.length > 63 || !table || table.length > 63) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri.href}`);
+    }
+
+    const response = await databaseClient.getDatabaseSchema(true, true, schema, false, bearerToken);
+    const tableInfo = response.tables.find((item) => item.table_name === table);
+    if (!tableInfo) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri.href} (table does not exist or is not visible)`);
+    }
+
+    const content: TableResourceContent = {
+      ...tableInfo,
+      referenced_by: response.tables.flatMap((item) =>
+        (item.foreign_keys || []).filter((foreignKey) => foreignKey.foreign_table_name === table)
+      ),
+    };
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(content, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -2,32 +2,87 @@
  * Klient API dla Supabase ERP
  */
 
+import { SpanKind, trace } from '@opentelemetry/api';
+import { ATTR_HTTP_REQUEST_METHOD, ATTR_HTTP_RESPONSE_STATUS_CODE, ATTR_URL_FULL } from '@opentelemetry/semantic-conventions';
+
 import type {
   OrderVerificationRequest,
   OrderVerificationResponse,
+  BatchOrderVerificationItem,
   AppConfig,
+  RequestOptions,
 } from '../types/index.js';
-import { ApiError } from '../types/index.js';
+import { ApiError, CircuitOpenError, RequestCancelledError } from '../types/index.js';
+import { CircuitBreaker } from '../helpers/circuitBreaker.js';
+import { mapWithConcurrency } from '../helpers/concurrency.js';
+import { currentCorrelationId, log } from '../helpers/logger.js';
+import { metrics } from './metrics.js';
+import { traceHeaders, withSpan } from './tracing.js';
+
+/**
+ * Kody odpowiedzi ponawiane przez executeWithRetry (poza nimi - błędy serwera 5xx)
+ */
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+/**
+ * Wartość metryki stanu circuit breakera
+ */
+const CIRCUIT_STATE_VALUES = { closed: 0, half_open: 1, open: 2 } as const;
+
+/**
+ * Parsuje nagłówek Retry-After (sekundy lub data HTTP)
+ * @returns Sekundy do ponownej próby lub undefined, gdy nagłówka brak lub jest nieprawidłowy
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
 
 /**
  * Klasa klienta API
  */
 export class ApiClient {
   private readonly orderVerificationUrl: string;
+  private readonly circuitBreaker: CircuitBreaker;
 
   constructor(private config: AppConfig) {
     // Buduj pełny URL do Edge Function weryfikacji zamówień
     this.orderVerificationUrl = `${config.supabaseProjectUrl}/functions/v1/order-verification`;
+    this.circuitBreaker = new CircuitBreaker(
+      config.circuitBreakerThreshold,
+      config.circuitBreakerResetTimeout,
+      (state, previous) => {
+        metrics.apiCircuitState.set(CIRCUIT_STATE_VALUES[state]);
+        log(state === 'open' ? 'warn' : 'info', `Circuit breaker API ERP: ${previous} -> ${state}`);
+      }
+    );
+  }
+
+  /**
+   * Stan circuit breakera API (do /health)
+   */
+  circuitBreakerStats(): ReturnType<CircuitBreaker['stats']> {
+    return this.circuitBreaker.stats();
   }
 
   /**
    * Weryfikuje zamówienie w systemie ERP
    * @param numerZamowienia - Numer zamówienia do weryfikacji
    * @param bearerToken - Token autoryzacyjny (opcjonalny, jeśli nie podany używa z config)
+   * @param options - Sygnał anulowania i raportowanie postępu (kolejne próby)
    */
   async verifyOrder(
     numerZamowienia: string,
-    bearerToken?: string
+    bearerToken?: string,
+    options: RequestOptions = {}
   ): Promise<OrderVerificationResponse> {
     // Walidacja wejścia
     if (!numerZamowienia || numerZamowienia.trim().length === 0) {
@@ -45,21 +100,101 @@ export class ApiClient {
     // Użyj przekazanego tokena lub domyślnego z config
     const token = bearerToken || this.config.supabaseBearerToken;
 
-    // Wykonaj żądanie z retry logic
-    return await this.executeWithRetry(async () => {
-      return await this.makeRequest(requestBody, token);
+    // Wykonaj żądanie z retry logic - span obejmuje wszystkie próby i przerwy między nimi
+    return await withSpan('erp.verify_order', { attributes: { 'erp.order_number': requestBody.numer_zamowienia } }, async (span) => {
+      const result = await this.executeWithRetry(async (attempt) => {
+        return await this.makeRequest(requestBody, token, attempt, options.signal);
+      }, options);
+      span.setAttribute('erp.order_found', result.zamowienieIstnieje);
+      return result;
     });
   }
 
+  /**
+   * Weryfikuje wiele zamówień z ograniczoną współbieżnością (VERIFY_CONCURRENCY)
+   * Błąd jednego zamówienia nie przerywa weryfikacji pozostałych - poza anulowaniem całego wywołania
+   * @param numeryZamowien - Numery zamówień do weryfikacji
+   * @param bearerToken - Token autoryzacyjny (opcjonalny, jeśli nie podany używa z config)
+   * @param options - Sygnał anulowania i raportowanie postępu (po każdym zweryfikowanym zamówieniu)
+   */
+  async verifyOrders(
+    numeryZamowien: string[],
+    bearerToken?: string,
+    options: RequestOptions = {}
+  ): Promise<BatchOrderVerificationItem[]> {
+    let completed = 0;
+
+    return await mapWithConcurrency(
+      numeryZamowien,
+      this.config.verifyConcurrency,
+      async (numerZamowienia): Promise<BatchOrderVerificationItem> => {
+        try {
+          const response = await this.verifyOrder(numerZamowienia, bearerToken, { signal: options.signal });
+          options.onProgress?.(++completed, numeryZamowien.length, `Zweryfikowano zamówienie ${numerZamowienia}`);
+          return {
+            numer_zamowienia: numerZamowienia,
+            result: response.zamowienieIstnieje ? 'found' : 'not_found',
+            daneZamowienia: response.daneZamowienia,
+            error: null,
+            error_code: null,
+          };
+        } catch (error) {
+          if (error instanceof RequestCancelledError) {
+            throw error;
+          }
+          options.onProgress?.(++completed, numeryZamowien.length, `Błąd weryfikacji zamówienia ${numerZamowienia}`);
+          return {
+            numer_zamowienia: numerZamowienia,
+            result: 'error',
+            daneZamowienia: null,
+            error: error instanceof Error ? error.message : 'Nieoczekiwany błąd',
+            error_code: error instanceof ApiError ? error.statusCode ?? null : null,
+          };
+        }
+      }
+    );
+  }
+
   /**
    * Wykonuje żądanie HTTP do API
    */
-  private async makeRequest(
+  private makeRequest(
     body: OrderVerificationRequest,
-    bearerToken: string
+    bearerToken: string,
+    attempt: number,
+    signal?: AbortSignal
+  ): Promise<OrderVerificationResponse> {
+    return withSpan(
+      'POST order-verification',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: 'POST',
+          [ATTR_URL_FULL]: this.orderVerificationUrl,
+          'http.request.resend_count': attempt,
+        },
+      },
+      (span) =>
+        this.sendRequest(body, bearerToken, (statusCode) => span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, statusCode), signal)
+    );
+  }
+
+  /**
+   * Wysyła żądanie weryfikacji (pojedyncza próba)
+   * Żądanie przerywa limit czasu API_TIMEOUT lub anulowanie wywołania przez klienta MCP
+   */
+  private async sendRequest(
+    body: OrderVerificationRequest,
+    bearerToken: string,
+    onStatus: (statusCode: number) => void,
+    signal?: AbortSignal
   ): Promise<OrderVerificationResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.apiTimeout);
+    const correlationId = currentCorrelationId();
+    const stopTimer = metrics.apiRequestDuration.startTimer();
+
+    log('debug', `Weryfikacja zamówienia ${body.numer_zamowienia} w API`);
 
     try {
       const response = await fetch(this.orderVerificationUrl, {
@@ -67,12 +202,17 @@ export class ApiClient {
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${bearerToken}`,
+          // ID korelacji i kontekst śladu (traceparent) pozwalają powiązać logi Edge Function z wywołaniem narzędzia
+          ...(correlationId ? { 'X-Request-Id': correlationId } : {}),
+          ...traceHeaders(),
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
+      stopTimer({ status: String(response.status) });
+      onStatus(response.status);
 
       // Obsługa kodów błędów HTTP
       if (!response.ok) {
@@ -88,8 +228,15 @@ export class ApiClient {
         throw error;
       }
 
+      // Anulowanie przez klienta MCP
+      if (signal?.aborted) {
+        stopTimer({ status: 'cancelled' });
+        throw new RequestCancelledError();
+      }
+
       // Obsługa timeout
       if ((error as Error).name === 'AbortError') {
+        stopTimer({ status: 'timeout' });
         throw new ApiError(
           `Przekroczono limit czasu żądania (${this.config.apiTimeout}ms)`,
           408
@@ -98,6 +245,7 @@ export class ApiClient {
 
       // Obsługa błędów sieciowych
       if (error instanceof TypeError) {
+        stopTimer({ status: 'network' });
         throw new ApiError('Błąd połączenia z API - sprawdź połączenie sieciowe', 503);
       }
 
@@ -147,7 +295,7 @@ export class ApiClient {
         message = `Błąd API (kod: ${statusCode})`;
     }
 
-    throw new ApiError(message, statusCode, errorDetails);
+    throw new ApiError(message, statusCode, errorDetails, parseRetryAfter(response.headers.get('retry-after')));
   }
 
   /**
@@ -188,48 +336,92 @@ export class ApiClient {
 
   /**
    * Wykonuje operację z automatycznym ponowieniem w przypadku błędów przejściowych
+   * Liczba prób i opóźnienia wg API_RETRY_*; każda próba przechodzi przez circuit breaker
+   * Anulowanie przerywa trwającą próbę i oczekiwanie na kolejną - bez wpływu na breaker
    */
-  private async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 2,
-    delayMs: number = 1000
-  ): Promise<T> {
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  private async executeWithRetry<T>(operation: (attempt: number) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const maxAttempts = this.config.apiRetryMaxAttempts;
+
+    for (let attempt = 0; ; attempt++) {
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      const decision = this.circuitBreaker.acquire();
+      if (!decision.allowed) {
+        throw new CircuitOpenError(decision.retryAfter);
+      }
+
       try {
-        return await operation();
+        const result = await operation(attempt);
+        this.circuitBreaker.recordSuccess(decision.trial);
+        return result;
       } catch (error) {
-        lastError = error as Error;
+        if (error instanceof RequestCancelledError) {
+          this.circuitBreaker.release(decision.trial);
+          throw error;
+        }
+
+        const statusCode = error instanceof ApiError ? error.statusCode || 500 : 500;
+
+        // Błędy klienta (4xx) poza 408 oznaczają, że API działa - nie liczą się do breakera
+        if (statusCode >= 500 || statusCode === 408) {
+          this.circuitBreaker.recordFailure(decision.trial);
+        } else {
+          this.circuitBreaker.recordSuccess(decision.trial);
+        }
 
         // Nie próbuj ponownie dla błędów klienta (4xx) poza 408 i 429
-        if (error instanceof ApiError) {
-          const statusCode = error.statusCode || 500;
-          const shouldRetry =
-            statusCode === 408 || // Timeout
-            statusCode === 429 || // Rate limit
-            statusCode >= 500; // Server errors
-
-          if (!shouldRetry || attempt === maxRetries) {
-            throw error;
-          }
+        const shouldRetry = RETRYABLE_CLIENT_STATUSES.includes(statusCode) || statusCode >= 500;
+        if (!shouldRetry || attempt + 1 >= maxAttempts) {
+          throw error;
         }
 
-        // Czekaj przed kolejną próbą (exponential backoff)
-        if (attempt < maxRetries) {
-          const delay = delayMs * Math.pow(2, attempt);
-          await this.sleep(delay);
+        const delay = this.retryDelay(attempt, error instanceof ApiError ? error.retryAfter : undefined);
+        // API każe czekać dłużej niż pozwala API_RETRY_MAX_DELAY - zwróć błąd od razu
+        if (delay === null) {
+          throw error;
         }
+
+        const status = String(statusCode);
+        metrics.apiRetries.inc({ status });
+        trace.getActiveSpan()?.addEvent('retry', { 'retry.delay_ms': delay, 'http.response.status_code': status });
+        log('warn', `Ponowienie żądania API za ${delay} ms (próba ${attempt + 2}/${maxAttempts}): ${(error as Error).message}`);
+        options.onProgress?.(attempt + 1, maxAttempts, `Ponowienie żądania API za ${delay} ms (próba ${attempt + 2}/${maxAttempts})`);
+        await this.sleep(delay, options.signal);
       }
     }
+  }
 
-    throw lastError;
+  /**
+   * Opóźnienie przed kolejną próbą: Retry-After z odpowiedzi API lub exponential backoff z jitterem
+   * (losowo od połowy do pełnego opóźnienia - równoległe wywołania nie ponawiają się jednocześnie)
+   * @returns Opóźnienie w ms lub null, gdy Retry-After przekracza API_RETRY_MAX_DELAY
+   */
+  private retryDelay(attempt: number, retryAfter?: number): number | null {
+    if (retryAfter !== undefined) {
+      const retryAfterMs = retryAfter * 1000;
+      return retryAfterMs <= this.config.apiRetryMaxDelay ? retryAfterMs : null;
+    }
+
+    const backoff = Math.min(this.config.apiRetryMaxDelay, this.config.apiRetryBaseDelay * Math.pow(2, attempt));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
   }
 
   /**
-   * Helper do opóźnień
+   * Helper do opóźnień (przerywany anulowaniem wywołania)
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new RequestCancelledError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
@@ -0,0 +1,253 @@
+/**
+ * Audyt wywołań narzędzi MCP
+ * Kto, kiedy i z jakimi argumentami wywołał narzędzie - zapis tylko do dopisywania (append-only)
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type { AppConfig, AuditEntry, AuditQuery, AuthClaims } from '../types/index.js';
+
+/**
+ * Domyślna i maksymalna liczba wpisów zwracanych przez zapytanie
+ */
+export const DEFAULT_AUDIT_QUERY_LIMIT = 50;
+export const MAX_AUDIT_QUERY_LIMIT = 500;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Rozmiar bloku przy czytaniu pliku audytu od końca
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Wymienny magazyn wpisów audytu
+ */
+export interface AuditSink {
+  append(entry: AuditEntry): Promise<void>;
+  /** Zwraca wpisy spełniające filtry, od najnowszych */
+  query(filter: AuditQuery): Promise<AuditEntry[]>;
+}
+
+/**
+ * Sprawdza, czy wpis spełnia filtry
+ */
+function matches(entry: AuditEntry, filter: AuditQuery): boolean {
+  return (
+    (!filter.tool || entry.tool === filter.tool) &&
+    (!filter.user_id || entry.user_id === filter.user_id) &&
+    (!filter.session_id || entry.session_id === filter.session_id) &&
+    (!filter.outcome || entry.outcome === filter.outcome) &&
+    (!filter.since || entry.timestamp >= new Date(filter.since).toISOString()) &&
+    (!filter.until || entry.timestamp < new Date(filter.until).toISOString())
+  );
+}
+
+/**
+ * Wybiera najnowsze pasujące wpisy (wpisy są przechowywane w kolejności zapisu)
+ */
+function selectNewest(entries: AuditEntry[], filter: AuditQuery): AuditEntry[] {
+  const limit = queryLimit(filter);
+  const selected: AuditEntry[] = [];
+
+  for (let i = entries.length - 1; i >= 0 && selected.length < limit; i--) {
+    if (matches(entries[i], filter)) {
+      selected.push(entries[i]);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Liczba wpisów zwracanych przez zapytanie
+ */
+function queryLimit(filter: AuditQuery): number {
+  return Math.min(filter.limit || DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT);
+}
+
+/**
+ * Czyta linie pliku od końca blokami, bez wczytywania całego pliku do pamięci
+ */
+async function* readLinesBackward(filePath: string): AsyncGenerator<string> {
+  const handle = await fs.open(filePath, 'r').catch(() => null);
+  if (!handle) {
+    return;
+  }
+
+  try {
+    let position = (await handle.stat()).size;
+    let remainder = Buffer.alloc(0);
+
+    while (position > 0) {
+      const size = Math.min(READ_CHUNK_SIZE, position);
+      position -= size;
+      const chunk = Buffer.alloc(size);
+      await handle.read(chunk, 0, size, position);
+
+      // Bajt \n nie występuje wewnątrz znaków wielobajtowych UTF-8, więc podział na bajtach jest bezpieczny
+      const buffer = Buffer.concat([chunk, remainder]);
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] === 0x0a) {
+          yield buffer.toString('utf8', i + 1, end);
+          end = i;
+        }
+      }
+      remainder = buffer.subarray(0, end);
+    }
+
+    if (remainder.length > 0) {
+      yield remainder.toString('utf8');
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Audyt w pliku JSONL (jeden wpis na linię)
+ */
+export class JsonlAuditSink implements AuditSink {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    // Zapisy są serializowane, aby linie z równoległych wywołań się nie przeplatały
+    const write = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Czyta plik od końca i kończy po znalezieniu limitu pasujących wpisów
+   */
+  async query(filter: AuditQuery): Promise<AuditEntry[]> {
+    await this.queue;
+
+    const limit = queryLimit(filter);
+    const selected: AuditEntry[] = [];
+
+    for await (const line of readLinesBackward(this.filePath)) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        // Pomiń uszkodzoną linię (np. przerwany zapis)
+        continue;
+      }
+
+      if (matches(entry, filter)) {
+        selected.push(entry);
+        if (selected.length >= limit) {
+          break;
+        }
+      }
+    }
+
+    return selected;
+  }
+}
+
+/**
+ * Audyt w pamięci procesu (np. do developmentu) - ograniczona liczba ostatnich wpisów
+ */
+export class MemoryAuditSink implements AuditSink {
+  private entries: AuditEntry[] = [];
+
+  constructor(private readonly maxEntries: number = 10000) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async query(filter: AuditQuery): Promise<AuditEntry[]> {
+    return selectNewest(this.entries, filter);
+  }
+}
+
+/**
+ * Zapis audytu z redakcją argumentów i kontrolą dostępu do odczytu
+ */
+export class AuditLogger {
+  private readonly redactKeys: Set<string>;
+
+  constructor(
+    private readonly sink: AuditSink,
+    private readonly config: AppConfig,
+    private readonly onError?: (error: unknown) => void
+  ) {
+    this.redactKeys = new Set(config.auditRedactArgs.map((key) => key.toLowerCase()));
+  }
+
+  /**
+   * Zapisuje wpis - błąd zapisu nie przerywa wywołania narzędzia
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.sink.append({ ...entry, arguments: this.redact(entry.arguments) as AuditEntry['arguments'] });
+    } catch (error) {
+      this.onError?.(error);
+    }
+  }
+
+  query(filter: AuditQuery): Promise<AuditEntry[]> {
+    return this.sink.query(filter);
+  }
+
+  /**
+   * Czy zweryfikowany wywołujący może czytać audyt (AUDIT_ADMIN_ROLES / AUDIT_ADMIN_USERS)
+   */
+  isAdmin(claims?: AuthClaims): boolean {
+    if (!claims) {
+      return false;
+    }
+    return this.config.auditAdminRoles.includes(claims.role) || this.config.auditAdminUsers.includes(claims.userId);
+  }
+
+  /**
+   * Zastępuje wartości kluczy z AUDIT_REDACT_ARGS (na każdym poziomie zagnieżdżenia)
+   */
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+
+    if (value && typeof value === 'object') {
+      const redacted: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        redacted[key] = this.redactKeys.has(key.toLowerCase()) ? REDACTED : this.redact(item);
+      }
+      return redacted;
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Tworzy audyt na podstawie konfiguracji (AUDIT_LOG)
+ * @returns audyt lub null, jeśli jest wyłączony
+ */
+export function createAuditLogger(config: AppConfig, onError?: (error: unknown) => void): AuditLogger | null {
+  switch (config.auditLog) {
+    case 'file':
+      return new AuditLogger(new JsonlAuditSink(config.auditLogFile), config, onError);
+    case 'memory':
+      return new AuditLogger(new MemoryAuditSink(), config, onError);
+    case 'none':
+      return null;
+  }
+}
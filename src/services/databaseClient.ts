@@ -3,7 +3,10 @@
  * Umożliwia bezpośredni dostęp do bazy danych poprzez Supabase Client
  */
 
+import { createHash } from 'node:crypto';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SpanKind } from '@opentelemetry/api';
+import { ATTR_DB_OPERATION_NAME, ATTR_DB_SYSTEM_NAME } from '@opentelemetry/semantic-conventions';
 import type {
   AppConfig,
   DatabaseSchemaResponse,
@@ -11,8 +14,143 @@ import type {
   ColumnInfo,
   ForeignKeyInfo,
   IndexInfo,
+  SqlParam,
+  ExecutedSqlQueryResult,
+  RequestOptions,
+  CustomerSearchField,
+  CustomerSearchResponse,
 } from '../types/index.js';
-import { ApiError } from '../types/index.js';
+import { ApiError, RequestCancelledError } from '../types/index.js';
+import { prepareReadOnlyQuery, bindQueryParams } from '../helpers/sqlValidator.js';
+import { TtlCache } from '../helpers/ttlCache.js';
+import { createNextCursor, decodeCursor, KEYSET_ROW_COLUMN } from '../helpers/keysetCursor.js';
+import {
+  MAX_CUSTOMER_CANDIDATES,
+  buildCustomerSearchQuery,
+  parseSearchTerms,
+  rankCustomers,
+} from '../helpers/customerSearch.js';
+import { currentCorrelationId, log } from '../helpers/logger.js';
+import { metrics } from './metrics.js';
+import { traceHeaders, withSpan } from './tracing.js';
+
+/**
+ * Lista tabel schematu
+ */
+const SCHEMA_TABLES_QUERY = `
+  SELECT table_name, table_schema
+  FROM information_schema.tables
+  WHERE table_schema = $1
+    AND table_type = 'BASE TABLE'
+  ORDER BY table_name
+`;
+
+/**
+ * Kolumny wszystkich tabel schematu
+ */
+const SCHEMA_COLUMNS_QUERY = `
+  SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable,
+    column_default,
+    character_maximum_length
+  FROM information_schema.columns
+  WHERE table_schema = $1
+  ORDER BY table_name, ordinal_position
+`;
+
+/**
+ * Foreign keys wszystkich tabel schematu (kolumny wielokolumnowych kluczy parowane po pozycji)
+ */
+const SCHEMA_FOREIGN_KEYS_QUERY = `
+  SELECT
+    con.conname AS constraint_name,
+    src.relname AS table_name,
+    src_col.attname AS column_name,
+    dst.relname AS foreign_table_name,
+    dst_col.attname AS foreign_column_name
+  FROM pg_constraint con
+  JOIN pg_class src ON src.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = src.relnamespace
+  JOIN pg_class dst ON dst.oid = con.confrelid
+  CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(src_attnum, dst_attnum, position)
+  JOIN pg_attribute src_col ON src_col.attrelid = con.conrelid AND src_col.attnum = k.src_attnum
+  JOIN pg_attribute dst_col ON dst_col.attrelid = con.confrelid AND dst_col.attnum = k.dst_attnum
+  WHERE con.contype = 'f'
+    AND n.nspname = $1
+  ORDER BY src.relname, con.conname, k.position
+`;
+
+/**
+ * Indeksy wszystkich tabel schematu
+ */
+const SCHEMA_INDEXES_QUERY = `
+  SELECT
+    i.relname AS index_name,
+    t.relname AS table_name,
+    a.attname AS column_name,
+    ix.indisunique AS is_unique,
+    ix.indisprimary AS is_primary
+  FROM pg_class t
+  JOIN pg_index ix ON t.oid = ix.indrelid
+  JOIN pg_class i ON i.oid = ix.indexrelid
+  JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+  JOIN pg_namespace n ON n.oid = t.relnamespace
+  WHERE t.relkind IN ('r', 'p')
+    AND n.nspname = $1
+  ORDER BY t.relname, i.relname
+`;
+
+/**
+ * Grupuje wiersze zapytania zbiorczego po kolumnie table_name
+ */
+function groupByTable<T>(rows: any[], map: (row: any) => T): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+
+  for (const row of rows) {
+    const list = grouped.get(row.table_name);
+    if (list) {
+      list.push(map(row));
+    } else {
+      grouped.set(row.table_name, [map(row)]);
+    }
+  }
+
+  return grouped;
+}
+
+/**
+ * Czas życia klientów Supabase utworzonych dla tokenów wywołujących (ms)
+ */
+const TOKEN_CLIENT_TTL = 10 * 60 * 1000;
+
+/**
+ * Maksymalna liczba klientów Supabase przechowywanych per token
+ */
+const MAX_TOKEN_CLIENTS = 100;
+
+/**
+ * Odstęp powiadomień o postępie wykonywanego zapytania SQL (ms)
+ */
+const SQL_PROGRESS_INTERVAL = 5000;
+
+/**
+ * Klient Supabase działający z uprawnieniami konkretnego tokena
+ */
+interface ScopedClient {
+  supabase: SupabaseClient;
+  /** Identyfikator tożsamości RLS (skrót tokena, nigdy sam token) */
+  identity: string;
+}
+
+/**
+ * Skrót tokena używany jako klucz cache
+ */
+function tokenIdentity(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
 
 /**
  * Klasa klienta bazy danych
@@ -20,9 +158,15 @@ import { ApiError } from '../types/index.js';
 export class DatabaseClient {
   private supabase: SupabaseClient | null = null;
   private defaultQueryLimit: number;
+  private schemaCache: TtlCache<DatabaseSchemaResponse>;
+  private tokenClients: TtlCache<SupabaseClient>;
+  private configuredIdentity: string;
 
-  constructor(config: AppConfig) {
+  constructor(private config: AppConfig) {
     this.defaultQueryLimit = config.defaultQueryLimit || 50;
+    this.schemaCache = new TtlCache(config.schemaCacheTtl);
+    this.tokenClients = new TtlCache(TOKEN_CLIENT_TTL, MAX_TOKEN_CLIENTS);
+    this.configuredIdentity = tokenIdentity(config.supabaseBearerToken || '');
 
     // Inicjalizuj klienta Supabase z bearer token (anon key)
     // Wszystkie zapytania respektują Row Level Security (RLS)
@@ -52,47 +196,144 @@ export class DatabaseClient {
     }
   }
 
+  /**
+   * Zwraca klienta Supabase działającego z uprawnieniami RLS wywołującego
+   * Klienci per token są przechowywani w cache, aby nie tworzyć nowego przy każdym wywołaniu
+   * @param bearerToken - Token wywołującego (bez niego używany jest skonfigurowany token, jeśli DATABASE_TOKEN_FALLBACK=true)
+   */
+  private resolveClient(bearerToken?: string): ScopedClient {
+    this.ensureClient();
+
+    if (!bearerToken || bearerToken === this.config.supabaseBearerToken) {
+      if (!bearerToken && !this.config.databaseTokenFallback) {
+        throw new ApiError(
+          'Missing caller bearer token. Database tools run with the caller\'s RLS permissions - send an Authorization header ' +
+            'or set DATABASE_TOKEN_FALLBACK=true to use the configured token.',
+          401
+        );
+      }
+      return { supabase: this.supabase!, identity: this.configuredIdentity };
+    }
+
+    const identity = tokenIdentity(bearerToken);
+    const cached = this.tokenClients.get(identity);
+    if (cached) {
+      return { supabase: cached.value, identity };
+    }
+
+    // Skonfigurowany klucz (anon key) pozostaje kluczem API projektu,
+    // a token wywołującego trafia do nagłówka Authorization - PostgREST stosuje RLS dla jego roli
+    const supabase = createClient(this.config.supabaseProjectUrl, this.config.supabaseBearerToken, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+      global: {
+        headers: {
+          Authorization: `Bearer ${bearerToken}`,
+        },
+      },
+    });
+
+    this.tokenClients.set(identity, supabase);
+    return { supabase, identity };
+  }
+
   /**
    * Pobiera strukturę bazy danych
+   * Metadane całego schematu pobierane są kilkoma zapytaniami zbiorczymi (bez N+1 per tabela)
+   * i przechowywane w cache per schemat, tożsamość RLS i flagi include (TTL: SCHEMA_CACHE_TTL)
    * @param includeRelations - Czy dołączyć informacje o relacjach (foreign keys)
    * @param includeIndexes - Czy dołączyć informacje o indeksach
    * @param schema - Nazwa schematu (domyślnie 'public')
+   * @param refresh - Pomiń cache i pobierz strukturę ponownie
+   * @param bearerToken - Token wywołującego (struktura widoczna z jego uprawnieniami RLS)
+   * @param options - Sygnał anulowania i raportowanie postępu (po każdym zapytaniu do katalogu)
    */
   async getDatabaseSchema(
     includeRelations: boolean = true,
     includeIndexes: boolean = true,
-    schema: string = 'public'
+    schema: string = 'public',
+    refresh: boolean = false,
+    bearerToken?: string,
+    options: RequestOptions = {}
   ): Promise<DatabaseSchemaResponse> {
-    this.ensureClient();
+    const client = this.resolveClient(bearerToken);
+
+    const cacheKey = JSON.stringify([client.identity, schema, includeRelations, includeIndexes]);
+
+    if (!refresh) {
+      const cached = this.schemaCache.get(cacheKey);
+      if (cached) {
+        return {
+          ...cached.value,
+          cache: {
+            hit: true,
+            cached_at: new Date(cached.storedAt).toISOString(),
+            expires_at: new Date(cached.expiresAt).toISOString(),
+          },
+        };
+      }
+    }
 
-    try {
-      // 1. Pobierz listę tabel
-      const tablesQuery = `
-        SELECT table_name, table_schema
-        FROM information_schema.tables
-        WHERE table_schema = '${schema}'
-          AND table_type = 'BASE TABLE'
-        ORDER BY table_name
-      `;
-
-      const { data: tablesData, error: tablesError } = await this.supabase!.rpc(
-        'exec_sql',
-        { query: tablesQuery }
-      );
+    const response = await this.fetchDatabaseSchema(client.supabase, includeRelations, includeIndexes, schema, options);
+    const entry = this.schemaCache.set(cacheKey, response);
 
-      if (tablesError) {
-        // Jeśli RPC nie jest dostępne, spróbuj przez Postgres REST API
-        const tablesResult = await this.executeRawSQL(tablesQuery);
-        return await this.buildSchemaResponse(
-          tablesResult,
-          schema,
-          includeRelations,
-          includeIndexes
-        );
-      }
+    return {
+      ...response,
+      cache: {
+        hit: false,
+        cached_at: new Date(entry.storedAt).toISOString(),
+        expires_at: new Date(entry.expiresAt).toISOString(),
+      },
+    };
+  }
 
-      return await this.buildSchemaResponse(
+  /**
+   * Unieważnia cache struktury bazy danych
+   * @param schema - Nazwa schematu (bez podania - cały cache)
+   * @returns liczba usuniętych wpisów
+   */
+  invalidateSchemaCache(schema?: string): number {
+    if (schema === undefined) {
+      return this.schemaCache.invalidate();
+    }
+    return this.schemaCache.invalidate((key) => JSON.parse(key)[1] === schema);
+  }
+
+  /**
+   * Pobiera strukturę bazy danych bezpośrednio z katalogu PostgreSQL
+   */
+  private async fetchDatabaseSchema(
+    supabase: SupabaseClient,
+    includeRelations: boolean,
+    includeIndexes: boolean,
+    schema: string,
+    options: RequestOptions
+  ): Promise<DatabaseSchemaResponse> {
+    const total = 2 + (includeRelations ? 1 : 0) + (includeIndexes ? 1 : 0);
+    let completed = 0;
+
+    // Zapytania wykonywane równolegle - postęp zgłaszany w kolejności ich zakończenia
+    const introspect = async (query: string, label: string): Promise<any[]> => {
+      const rows = await this.executeRawSQL(supabase, query, [schema], options.signal);
+      options.onProgress?.(++completed, total, `Pobrano ${label} schematu ${schema} (wierszy: ${rows.length})`);
+      return rows;
+    };
+
+    try {
+      const [tablesData, columnsData, foreignKeysData, indexesData] = await Promise.all([
+        introspect(SCHEMA_TABLES_QUERY, 'tabele'),
+        introspect(SCHEMA_COLUMNS_QUERY, 'kolumny'),
+        includeRelations ? introspect(SCHEMA_FOREIGN_KEYS_QUERY, 'klucze obce') : Promise.resolve([]),
+        includeIndexes ? introspect(SCHEMA_INDEXES_QUERY, 'indeksy') : Promise.resolve([]),
+      ]);
+
+      return this.buildSchemaResponse(
         tablesData,
+        columnsData,
+        foreignKeysData,
+        indexesData,
         schema,
         includeRelations,
         includeIndexes
@@ -110,40 +351,46 @@ export class DatabaseClient {
   }
 
   /**
-   * Buduje odpowiedź ze strukturą bazy danych
+   * Buduje odpowiedź ze strukturą bazy danych grupując wyniki zapytań zbiorczych per tabela
    */
-  private async buildSchemaResponse(
+  private buildSchemaResponse(
     tablesData: any[],
+    columnsData: any[],
+    foreignKeysData: any[],
+    indexesData: any[],
     schema: string,
     includeRelations: boolean,
     includeIndexes: boolean
-  ): Promise<DatabaseSchemaResponse> {
-    const tables: TableInfo[] = [];
-
-    for (const table of tablesData) {
+  ): DatabaseSchemaResponse {
+    const columnsByTable = groupByTable<ColumnInfo>(columnsData, (row) => ({
+      column_name: row.column_name,
+      data_type: row.data_type,
+      is_nullable: row.is_nullable,
+      column_default: row.column_default,
+      character_maximum_length: row.character_maximum_length,
+    }));
+    const foreignKeysByTable = groupByTable<ForeignKeyInfo>(foreignKeysData, (row) => row);
+    const indexesByTable = groupByTable<IndexInfo>(indexesData, (row) => row);
+
+    const tables: TableInfo[] = tablesData.map((table) => {
       const tableName = table.table_name;
 
-      // Pobierz kolumny
-      const columns = await this.getTableColumns(tableName, schema);
-
       const tableInfo: TableInfo = {
         table_name: tableName,
         table_schema: schema,
-        columns,
+        columns: columnsByTable.get(tableName) || [],
       };
 
-      // Pobierz relacje jeśli wymagane
       if (includeRelations) {
-        tableInfo.foreign_keys = await this.getTableForeignKeys(tableName, schema);
+        tableInfo.foreign_keys = foreignKeysByTable.get(tableName) || [];
       }
 
-      // Pobierz indeksy jeśli wymagane
       if (includeIndexes) {
-        tableInfo.indexes = await this.getTableIndexes(tableName, schema);
+        tableInfo.indexes = indexesByTable.get(tableName) || [];
       }
 
-      tables.push(tableInfo);
-    }
+      return tableInfo;
+    });
 
     return {
       tables,
@@ -151,162 +398,85 @@ export class DatabaseClient {
     };
   }
 
-  /**
-   * Pobiera informacje o kolumnach tabeli
-   */
-  private async getTableColumns(
-    tableName: string,
-    schema: string
-  ): Promise<ColumnInfo[]> {
-    const query = `
-      SELECT
-        column_name,
-        data_type,
-        is_nullable,
-        column_default,
-        character_maximum_length
-      FROM information_schema.columns
-      WHERE table_schema = '${schema}'
-        AND table_name = '${tableName}'
-      ORDER BY ordinal_position
-    `;
-
-    const result = await this.executeRawSQL(query);
-    return result;
-  }
-
-  /**
-   * Pobiera informacje o foreign keys tabeli
-   */
-  private async getTableForeignKeys(
-    tableName: string,
-    schema: string
-  ): Promise<ForeignKeyInfo[]> {
-    const query = `
-      SELECT
-        tc.constraint_name,
-        tc.table_name,
-        kcu.column_name,
-        ccu.table_name AS foreign_table_name,
-        ccu.column_name AS foreign_column_name
-      FROM information_schema.table_constraints AS tc
-      JOIN information_schema.key_column_usage AS kcu
-        ON tc.constraint_name = kcu.constraint_name
-        AND tc.table_schema = kcu.table_schema
-      JOIN information_schema.constraint_column_usage AS ccu
-        ON ccu.constraint_name = tc.constraint_name
-        AND ccu.table_schema = tc.table_schema
-      WHERE tc.constraint_type = 'FOREIGN KEY'
-        AND tc.table_schema = '${schema}'
-        AND tc.table_name = '${tableName}'
-    `;
-
-    const result = await this.executeRawSQL(query);
-    return result;
-  }
-
-  /**
-   * Pobiera informacje o indeksach tabeli
-   */
-  private async getTableIndexes(
-    tableName: string,
-    schema: string
-  ): Promise<IndexInfo[]> {
-    const query = `
-      SELECT
-        i.relname AS index_name,
-        t.relname AS table_name,
-        a.attname AS column_name,
-        ix.indisunique AS is_unique,
-        ix.indisprimary AS is_primary
-      FROM pg_class t
-      JOIN pg_index ix ON t.oid = ix.indrelid
-      JOIN pg_class i ON i.oid = ix.indexrelid
-      JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
-      JOIN pg_namespace n ON n.oid = t.relnamespace
-      WHERE t.relkind = 'r'
-        AND n.nspname = '${schema}'
-        AND t.relname = '${tableName}'
-      ORDER BY i.relname
-    `;
-
-    const result = await this.executeRawSQL(query);
-    return result;
-  }
-
   /**
    * Wykonuje zapytanie SQL z domyślnym limitem
    * @param query - Zapytanie SQL
    * @param limit - Limit rekordów (domyślnie z konfiguracji)
    * @param offset - Offset dla paginacji
+   * @param params - Wartości parametrów $1, $2, ... (bezpiecznie podstawiane przed wysłaniem do exec_sql)
+   * @param cursor - Kursor keyset zwrócony jako next_cursor przez poprzednie wywołanie
+   * @param bearerToken - Token wywołującego (zapytanie wykonywane z jego uprawnieniami RLS)
+   * @param options - Sygnał anulowania i raportowanie postępu (co SQL_PROGRESS_INTERVAL podczas wykonywania)
    */
   async executeSQLWithLimit(
     query: string,
     limit?: number,
-    offset: number = 0
-  ): Promise<{ data: any[]; count: number; limited: boolean }> {
-    this.ensureClient();
+    offset: number = 0,
+    params: SqlParam[] = [],
+    cursor?: string,
+    bearerToken?: string,
+    options: RequestOptions = {}
+  ): Promise<ExecutedSqlQueryResult> {
+    const client = this.resolveClient(bearerToken);
+    let progressTimer: NodeJS.Timeout | undefined;
 
     try {
-      // Walidacja zapytania
-      const trimmedQuery = query.trim().toUpperCase();
+      // Ustal limit
+      const effectiveLimit = limit !== undefined ? limit : this.defaultQueryLimit;
 
-      // Sprawdź czy to zapytanie SELECT
-      if (!trimmedQuery.startsWith('SELECT')) {
-        throw new ApiError(
-          'Only SELECT queries are allowed. For data modification, use appropriate MCP tools.',
-          400
-        );
+      // Walidacja przez parser PostgreSQL i nałożenie LIMIT/OFFSET na AST
+      const prepared = await prepareReadOnlyQuery(query, effectiveLimit, offset, params, cursor);
+
+      // LIMIT 0 - wynik jest znany bez wykonywania zapytania
+      if (prepared.limit === 0) {
+        return {
+          data: [],
+          count: 0,
+          limited: prepared.limited,
+          has_more: false,
+          next_cursor: null,
+          executed_sql: prepared.sql,
+        };
       }
 
-      // Sprawdź czy zapytanie zawiera niebezpieczne operacje
-      const dangerousKeywords = ['DROP', 'DELETE', 'TRUNCATE', 'INSERT', 'UPDATE', 'ALTER'];
-      for (const keyword of dangerousKeywords) {
-        if (trimmedQuery.includes(keyword)) {
-          throw new ApiError(
-            `Query contains dangerous keyword: ${keyword}. Only SELECT queries are allowed.`,
-            400
-          );
-        }
+      // Czas wykonania zapytania nie jest znany - postęp to sekundy od jego rozpoczęcia
+      const onProgress = options.onProgress;
+      if (onProgress) {
+        const startedAt = Date.now();
+        progressTimer = setInterval(() => {
+          const elapsed = Math.round((Date.now() - startedAt) / 1000);
+          onProgress(elapsed, undefined, `Zapytanie SQL wykonywane od ${elapsed} s`);
+        }, SQL_PROGRESS_INTERVAL);
       }
 
-      // Ustal limit
-      const effectiveLimit = limit !== undefined ? limit : this.defaultQueryLimit;
-      let limited = false;
-
-      // Sprawdź czy zapytanie już ma LIMIT
-      let finalQuery = query.trim();
-      if (!trimmedQuery.includes('LIMIT')) {
-        // Dodaj LIMIT jeśli nie ma
-        finalQuery += ` LIMIT ${effectiveLimit}`;
-        limited = true;
-      } else {
-        // Sprawdź czy istniejący LIMIT jest większy niż dozwolony
-        const limitMatch = trimmedQuery.match(/LIMIT\s+(\d+)/);
-        if (limitMatch) {
-          const requestedLimit = parseInt(limitMatch[1], 10);
-          if (requestedLimit > effectiveLimit) {
-            // Zamień na mniejszy limit
-            finalQuery = finalQuery.replace(/LIMIT\s+\d+/i, `LIMIT ${effectiveLimit}`);
-            limited = true;
-          }
-        }
-      }
+      // Wykonaj zapytanie (pobiera limit + 1 wierszy)
+      const result = await this.executeRawSQL(client.supabase, prepared.sql, [], options.signal);
+
+      const hasMore = result.length > prepared.limit;
+      const data = hasMore ? result.slice(0, prepared.limit) : result;
 
-      // Dodaj OFFSET jeśli podany
-      if (offset > 0) {
-        if (!trimmedQuery.includes('OFFSET')) {
-          finalQuery += ` OFFSET ${offset}`;
+      metrics.sqlRowsReturned.inc(data.length);
+      if (hasMore) {
+        metrics.sqlRowLimitHits.inc();
+      }
+      const nextCursor =
+        hasMore && prepared.sortKeys
+          ? createNextCursor(prepared.fingerprint, prepared.sortKeys, data, cursor ? decodeCursor(cursor) : undefined)
+          : null;
+
+      if (prepared.sortKeys) {
+        for (const row of data) {
+          delete row[KEYSET_ROW_COLUMN];
         }
       }
 
-      // Wykonaj zapytanie
-      const result = await this.executeRawSQL(finalQuery);
-
       return {
-        data: result,
-        count: result.length,
-        limited,
+        data,
+        count: data.length,
+        limited: prepared.limited,
+        has_more: hasMore,
+        next_cursor: nextCursor,
+        executed_sql: prepared.sql,
       };
     } catch (error) {
       if (error instanceof ApiError) {
@@ -317,29 +487,118 @@ export class DatabaseClient {
         500,
         error
       );
+    } finally {
+      clearInterval(progressTimer);
+    }
+  }
+
+  /**
+   * Wyszukuje klientów w tabeli "Klienci" bez względu na polskie znaki i z tolerancją literówek
+   * @param query - Szukany tekst (email, imię, nazwisko, telefon lub ich kombinacja)
+   * @param fields - Przeszukiwane pola
+   * @param limit - Maksymalna liczba zwróconych klientów
+   * @param bearerToken - Token wywołującego (wyszukiwanie z jego uprawnieniami RLS)
+   * @param options - Sygnał anulowania wywołania
+   */
+  async findCustomers(
+    query: string,
+    fields: CustomerSearchField[],
+    limit: number,
+    bearerToken?: string,
+    options: RequestOptions = {}
+  ): Promise<CustomerSearchResponse> {
+    const client = this.resolveClient(bearerToken);
+
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) {
+      throw new ApiError('Search query must contain at least one letter or digit', 400);
+    }
+
+    const search = buildCustomerSearchQuery(terms, fields);
+
+    try {
+      const rows = await this.executeRawSQL(client.supabase, search.sql, search.params, options.signal);
+      const truncated = rows.length > MAX_CUSTOMER_CANDIDATES;
+      const customers = rankCustomers(rows.slice(0, MAX_CUSTOMER_CANDIDATES), terms, fields).slice(0, limit);
+
+      return { customers, count: customers.length, truncated };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(
+        `Failed to search customers: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        500,
+        error
+      );
     }
   }
 
   /**
    * Wykonuje surowe zapytanie SQL
+   * @param supabase - Klient Supabase z uprawnieniami wywołującego
+   * @param query - Zapytanie SQL (może zawierać placeholdery $1, $2, ...)
+   * @param params - Wartości parametrów podstawiane bezpiecznie przed wysłaniem do exec_sql
+   * @param signal - Sygnał anulowania wywołania (przerywa żądanie RPC)
    * @private
    */
-  private async executeRawSQL(query: string): Promise<any[]> {
-    this.ensureClient();
+  private async executeRawSQL(
+    supabase: SupabaseClient,
+    query: string,
+    params: SqlParam[] = [],
+    signal?: AbortSignal
+  ): Promise<any[]> {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    if (params.length > 0) {
+      query = await bindQueryParams(query, params);
+    }
 
     try {
-      // Próbuj użyć Postgres REST API
-      const { data, error } = await this.supabase!.rpc('exec_sql', { query });
+      log('debug', 'Wykonywanie SQL:', query);
 
-      if (error) {
-        throw new ApiError(
-          `Database query failed: ${error.message}`,
-          500,
-          error
-        );
-      }
+      return await withSpan(
+        'exec_sql',
+        { kind: SpanKind.CLIENT, attributes: { [ATTR_DB_SYSTEM_NAME]: 'postgresql', [ATTR_DB_OPERATION_NAME]: 'exec_sql' } },
+        async (span) => {
+          // Próbuj użyć Postgres REST API
+          const request = supabase.rpc('exec_sql', { query });
+
+          // ID korelacji i kontekst śladu (traceparent) pozwalają powiązać logi PostgREST z wywołaniem narzędzia
+          const correlationId = currentCorrelationId();
+          const headers = { ...(correlationId ? { 'X-Request-Id': correlationId } : {}), ...traceHeaders() };
+          for (const [name, value] of Object.entries(headers)) {
+            request.setHeader(name, value);
+          }
 
-      return data || [];
+          if (signal) {
+            request.abortSignal(signal);
+          }
+
+          const stopTimer = metrics.execSqlDuration.startTimer();
+          const { data, error } = await request;
+
+          // PostgREST zwraca przerwane żądanie jako błąd - anulowanie nie jest błędem bazy
+          if (signal?.aborted) {
+            stopTimer({ outcome: 'cancelled' });
+            throw new RequestCancelledError();
+          }
+          stopTimer({ outcome: error ? 'error' : 'success' });
+
+          if (error) {
+            throw new ApiError(
+              `Database query failed: ${error.message}`,
+              500,
+              error
+            );
+          }
+
+          span.setAttribute('db.response.returned_rows', (data || []).length);
+          return data || [];
+        }
+      );
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -361,5 +620,6 @@ export class DatabaseClient {
   async close(): Promise<void> {
     // Supabase client nie wymaga jawnego zamykania
     this.supabase = null;
+    this.tokenClients.invalidate();
   }
 }
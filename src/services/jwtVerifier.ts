@@ -0,0 +1,177 @@
+/**
+ * Lokalna weryfikacja tokenów JWT (Supabase) dla transportów HTTP
+ * Token jest sprawdzany przed przekazaniem go do Supabase - podpis (HS256 lub JWKS), exp, aud, rola i zakresy (scope)
+ */
+
+import { readFileSync } from 'node:fs';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  decodeProtectedHeader,
+  errors as joseErrors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InsufficientScopeError, InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+
+import type { AppConfig, AuthClaims } from '../types/index.js';
+
+/**
+ * Dopuszczalna różnica zegarów przy sprawdzaniu exp/nbf (sekundy)
+ */
+const CLOCK_TOLERANCE_SECONDS = 5;
+
+/**
+ * Algorytmy akceptowane dla kluczy z JWKS (Supabase asymmetric signing keys)
+ */
+const JWKS_ALGORITHMS = ['RS256', 'ES256'];
+
+/**
+ * Weryfikator tokenów zgodny z OAuthTokenVerifier z MCP SDK (używany przez requireBearerAuth)
+ */
+export class JwtTokenVerifier implements OAuthTokenVerifier {
+  private readonly secret: Uint8Array | null;
+  private readonly jwks: JWTVerifyGetKey | null;
+
+  constructor(private readonly config: AppConfig) {
+    this.secret = config.authJwtSecret ? new TextEncoder().encode(config.authJwtSecret) : null;
+    if (config.authJwksFile) {
+      this.jwks = createLocalJWKSet(loadJwks(config.authJwksFile));
+    } else if (config.authJwksUrl) {
+      this.jwks = createRemoteJWKSet(new URL(config.authJwksUrl));
+    } else {
+      this.jwks = null;
+    }
+  }
+
+  /**
+   * Weryfikuje token i zwraca AuthInfo z claimami w extra.claims
+   */
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const payload = await this.verifySignature(token);
+
+    if (typeof payload.exp !== 'number') {
+      throw new InvalidTokenError('Token has no expiration time');
+    }
+
+    if (typeof payload.sub !== 'string' || payload.sub.length === 0) {
+      throw new InvalidTokenError('Token has no subject (sub) claim');
+    }
+
+    const role = typeof payload.role === 'string' ? payload.role : '';
+    if (this.config.authAllowedRoles.length > 0 && !this.config.authAllowedRoles.includes(role)) {
+      throw new InsufficientScopeError(`Role '${role || 'none'}' is not allowed to use this server`);
+    }
+
+    const claims: AuthClaims = {
+      userId: payload.sub,
+      role,
+      email: typeof payload.email === 'string' ? payload.email : null,
+      expiresAt: payload.exp,
+    };
+
+    return {
+      token,
+      clientId: typeof payload.client_id === 'string' ? payload.client_id : payload.sub,
+      scopes: readScopes(payload),
+      expiresAt: payload.exp,
+      resource: this.config.oauthResourceUrl ? new URL(this.config.oauthResourceUrl) : undefined,
+      extra: { claims },
+    };
+  }
+
+  /**
+   * Sprawdza podpis i standardowe claimy (exp, nbf, aud, iss)
+   */
+  private async verifySignature(token: string): Promise<JWTPayload> {
+    let algorithm: string | undefined;
+    try {
+      algorithm = decodeProtectedHeader(token).alg;
+    } catch {
+      throw new InvalidTokenError('Malformed token');
+    }
+
+    const options = {
+      audience: this.config.authAudience.length > 0 ? this.config.authAudience : undefined,
+      issuer: this.config.authIssuer,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    };
+
+    try {
+      if (algorithm === 'HS256' && this.secret) {
+        return (await jwtVerify(token, this.secret, { ...options, algorithms: ['HS256'] })).payload;
+      }
+      if (algorithm && JWKS_ALGORITHMS.includes(algorithm) && this.jwks) {
+        return (await jwtVerify(token, this.jwks, { ...options, algorithms: JWKS_ALGORITHMS })).payload;
+      }
+    } catch (error) {
+      throw new InvalidTokenError(describeVerificationError(error));
+    }
+
+    throw new InvalidTokenError(`Unsupported token algorithm: ${algorithm || 'none'}`);
+  }
+}
+
+/**
+ * Zakresy tokena z claimu scope (string rozdzielony spacjami) lub scp (tablica)
+ */
+function readScopes(payload: JWTPayload): string[] {
+  if (typeof payload.scope === 'string') {
+    return payload.scope.split(' ').filter((scope) => scope.length > 0);
+  }
+  if (Array.isArray(payload.scp)) {
+    return payload.scp.filter((scope): scope is string => typeof scope === 'string');
+  }
+  return [];
+}
+
+/**
+ * Wczytuje JWKS z pliku (format {"keys": [...]})
+ */
+function loadJwks(filePath: string): JSONWebKeySet {
+  const jwks = JSON.parse(readFileSync(filePath, 'utf8')) as JSONWebKeySet;
+
+  if (!jwks || !Array.isArray(jwks.keys) || jwks.keys.length === 0) {
+    throw new Error(`AUTH_JWKS_FILE ${filePath} does not contain any keys`);
+  }
+
+  return jwks;
+}
+
+/**
+ * Zamienia błąd biblioteki jose na opis dla nagłówka WWW-Authenticate
+ */
+function describeVerificationError(error: unknown): string {
+  if (error instanceof joseErrors.JWTExpired) {
+    return 'Token has expired';
+  }
+  if (error instanceof joseErrors.JWTClaimValidationFailed) {
+    return `Token claim '${error.claim}' is invalid`;
+  }
+  if (error instanceof joseErrors.JWSSignatureVerificationFailed || error instanceof joseErrors.JWKSNoMatchingKey) {
+    return 'Token signature is invalid';
+  }
+  return 'Token is invalid';
+}
+
+/**
+ * Claimy zweryfikowanego tokena z AuthInfo przekazanego przez transport
+ */
+export function authClaimsFrom(authInfo?: AuthInfo): AuthClaims | undefined {
+  return authInfo?.extra?.claims as AuthClaims | undefined;
+}
+
+/**
+ * Tworzy weryfikator tokenów na podstawie konfiguracji
+ * @returns weryfikator lub null, jeśli nie skonfigurowano AUTH_JWT_SECRET, AUTH_JWKS_FILE ani AUTH_JWKS_URL
+ */
+export function createJwtVerifier(config: AppConfig): JwtTokenVerifier | null {
+  if (!config.authJwtSecret && !config.authJwksFile && !config.authJwksUrl) {
+    return null;
+  }
+  return new JwtTokenVerifier(config);
+}
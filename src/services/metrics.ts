@@ -0,0 +1,126 @@
+/**
+ * Metryki Prometheus serwera (endpoint /metrics)
+ * Wspólny rejestr dla narzędzi, klientów API i bazy danych oraz sesji transportu HTTP
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type express from 'express';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+import type { AuditOutcome } from '../types/index.js';
+
+/**
+ * Progi histogramów czasu (sekundy) - od szybkich odpowiedzi z cache po timeout API
+ */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const metricsRegistry = new Registry();
+
+export const metrics = {
+  toolCalls: new Counter({
+    name: 'mcp_tool_calls_total',
+    help: 'Tool calls by tool and outcome',
+    labelNames: ['tool', 'outcome'] as const,
+    registers: [metricsRegistry],
+  }),
+  toolCallDuration: new Histogram({
+    name: 'mcp_tool_call_duration_seconds',
+    help: 'Tool call duration by tool and outcome',
+    labelNames: ['tool', 'outcome'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [metricsRegistry],
+  }),
+  apiRequestDuration: new Histogram({
+    name: 'erp_api_request_duration_seconds',
+    help: 'Upstream order verification API request duration by HTTP status code (timeout, network, cancelled for failed requests)',
+    labelNames: ['status'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [metricsRegistry],
+  }),
+  apiRetries: new Counter({
+    name: 'erp_api_retries_total',
+    help: 'Retried upstream API requests by status code of the failed attempt',
+    labelNames: ['status'] as const,
+    registers: [metricsRegistry],
+  }),
+  apiCircuitState: new Gauge({
+    name: 'erp_api_circuit_breaker_state',
+    help: 'Upstream order verification API circuit breaker state (0 closed, 1 half-open, 2 open)',
+    registers: [metricsRegistry],
+  }),
+  execSqlDuration: new Histogram({
+    name: 'erp_exec_sql_duration_seconds',
+    help: 'exec_sql RPC duration by outcome (success, error, cancelled)',
+    labelNames: ['outcome'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [metricsRegistry],
+  }),
+  sqlRowsReturned: new Counter({
+    name: 'erp_sql_rows_returned_total',
+    help: 'Rows returned by execute_sql_limited',
+    registers: [metricsRegistry],
+  }),
+  // Liczba wierszy ponad limit nie jest znana (pobierany jest tylko jeden wiersz ponad stronę) - liczone są wywołania
+  sqlRowLimitHits: new Counter({
+    name: 'erp_sql_row_limit_hits_total',
+    help: 'execute_sql_limited calls whose result hit the row limit (has_more=true); counts calls, not rows',
+    registers: [metricsRegistry],
+  }),
+  sessionsActive: new Gauge({
+    name: 'mcp_sessions_active',
+    help: 'Active MCP sessions (Streamable HTTP sessions or SSE connections)',
+    registers: [metricsRegistry],
+  }),
+  sessionsEvicted: new Counter({
+    name: 'mcp_sessions_evicted_total',
+    help: 'MCP sessions closed by the server by reason',
+    labelNames: ['reason'] as const,
+    registers: [metricsRegistry],
+  }),
+  sseReconnects: new Counter({
+    name: 'mcp_sse_reconnects_total',
+    help: 'SSE stream reconnects with Last-Event-ID',
+    registers: [metricsRegistry],
+  }),
+};
+
+/**
+ * Rejestruje wywołanie narzędzia
+ */
+export function recordToolCall(tool: string, outcome: AuditOutcome, durationMs: number): void {
+  metrics.toolCalls.inc({ tool, outcome });
+  metrics.toolCallDuration.observe({ tool, outcome }, durationMs / 1000);
+}
+
+/**
+ * Włącza metryki procesu Node.js (CPU, pamięć, event loop) - tylko w serwerach HTTP
+ */
+export function enableProcessMetrics(): void {
+  collectDefaultMetrics({ register: metricsRegistry });
+}
+
+/**
+ * Porównuje nagłówek Authorization z tokenem w stałym czasie
+ */
+function matchesToken(authorization: string | undefined, token: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(authorization || ''), digest(`Bearer ${token}`));
+}
+
+/**
+ * Handler /metrics w formacie tekstowym Prometheus
+ * @param token - Wymagany token Bearer (METRICS_TOKEN); bez niego endpoint jest publiczny
+ * @param beforeScrape - Aktualizacja metryk odczytywanych z bieżącego stanu (np. liczby sesji)
+ */
+export function createMetricsHandler(token?: string, beforeScrape?: () => void): express.RequestHandler {
+  return async (req, res) => {
+    if (token && !matchesToken(req.get('authorization'), token)) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Invalid or missing metrics token' });
+      return;
+    }
+
+    beforeScrape?.();
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Metadane chronionego zasobu OAuth 2.1 (RFC 9728) dla endpointu /mcp
+ * Serwer działa jako resource server - tokeny wydaje zewnętrzny serwer autoryzacji (domyślnie Supabase Auth)
+ */
+
+import express from 'express';
+import { metadataHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/metadata.js';
+import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import type { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+
+import type { AppConfig } from '../types/index.js';
+
+/**
+ * Ścieżka metadanych chronionego zasobu
+ */
+const PROTECTED_RESOURCE_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * Buduje metadane chronionego zasobu
+ * @param config - Konfiguracja (OAUTH_RESOURCE_URL, AUTH_ISSUER)
+ * @param scopesSupported - Zakresy używane przez narzędzia
+ */
+export function protectedResourceMetadata(
+  config: AppConfig,
+  scopesSupported: string[]
+): OAuthProtectedResourceMetadata {
+  return {
+    resource: config.oauthResourceUrl!,
+    authorization_servers: [config.authIssuer!],
+    scopes_supported: scopesSupported,
+    bearer_methods_supported: ['header'],
+    resource_name: 'Express ERP MCP Server',
+  };
+}
+
+/**
+ * URL metadanych zasobu podawany w nagłówku WWW-Authenticate (resource_metadata)
+ */
+export function protectedResourceMetadataUrl(config: AppConfig): string {
+  return getOAuthProtectedResourceMetadataUrl(new URL(config.oauthResourceUrl!));
+}
+
+/**
+ * Router z metadanymi chronionego zasobu
+ * Metadane są dostępne pod ścieżką główną oraz pod ścieżką zależną od zasobu (np. /.well-known/oauth-protected-resource/mcp)
+ */
+export function createProtectedResourceRouter(config: AppConfig, scopesSupported: string[]): express.Router {
+  const router = express.Router();
+  const handler = metadataHandler(protectedResourceMetadata(config, scopesSupported));
+
+  const resourcePath = new URL(config.oauthResourceUrl!).pathname;
+  router.use(PROTECTED_RESOURCE_PATH, handler);
+  if (resourcePath !== '/') {
+    router.use(`${PROTECTED_RESOURCE_PATH}${resourcePath}`, handler);
+  }
+
+  return router;
+}
@@ -0,0 +1,253 @@
+/**
+ * Obserwowanie zamówień subskrybowanych przez klientów MCP (resources/subscribe)
+ * Okresowo sprawdza zamówienia przez ApiClient i powiadamia subskrybentów o zmianie statusu lub wartości
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import type { ApiClient } from './apiClient.js';
+import type { AppConfig, OrderVerificationResponse } from '../types/index.js';
+import { ApiError } from '../types/index.js';
+import { mapWithConcurrency } from '../helpers/concurrency.js';
+import { log, withCorrelationId } from '../helpers/logger.js';
+import { tokenFingerprint } from './rateLimiter.js';
+import { withRootTraceContext } from './tracing.js';
+
+/**
+ * Obserwowany stan zamówienia (porównywany między sprawdzeniami)
+ */
+interface OrderSnapshot {
+  exists: boolean;
+  status: string | null;
+  wartosc_calkowita: number | null;
+}
+
+/**
+ * Zamówienie obserwowane z uprawnieniami jednego tokena (RLS) - wspólne dla subskrybentów z tym tokenem
+ */
+interface Watch {
+  numerZamowienia: string;
+  token?: string;
+  /** undefined - stan jeszcze nieznany (pierwsze sprawdzenie ustala punkt odniesienia) */
+  snapshot?: OrderSnapshot;
+  subscribers: Map<string, OrderChangeListener>;
+}
+
+/**
+ * Funkcja wywoływana po zmianie zamówienia (np. wysłanie notifications/resources/updated)
+ */
+export type OrderChangeListener = (numerZamowienia: string) => Promise<void> | void;
+
+/**
+ * Stan zamówienia z odpowiedzi API
+ */
+function snapshotOf(response: OrderVerificationResponse): OrderSnapshot {
+  return {
+    exists: response.zamowienieIstnieje,
+    status: response.daneZamowienia?.status ?? null,
+    wartosc_calkowita: response.daneZamowienia?.wartosc_calkowita ?? null,
+  };
+}
+
+function snapshotsEqual(a: OrderSnapshot, b: OrderSnapshot): boolean {
+  return a.exists === b.exists && a.status === b.status && a.wartosc_calkowita === b.wartosc_calkowita;
+}
+
+export class OrderWatcher {
+  private watches: Map<string, Watch> = new Map();
+  private subscriptions: Map<string, Set<string>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private checks = 0;
+  private failedChecks = 0;
+  private notifications = 0;
+
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly config: AppConfig
+  ) {}
+
+  /**
+   * Dodaje subskrypcję zamówienia
+   * @param subscriberId - Identyfikator subskrybenta (sesji MCP)
+   * @param numerZamowienia - Numer obserwowanego zamówienia
+   * @param token - Token subskrybenta (zamówienie sprawdzane z jego uprawnieniami RLS)
+   * @param listener - Powiadomienie o zmianie
+   */
+  async subscribe(
+    subscriberId: string,
+    numerZamowienia: string,
+    token: string | undefined,
+    listener: OrderChangeListener
+  ): Promise<void> {
+    const key = this.watchKey(numerZamowienia, token);
+    const keys = this.subscriptions.get(subscriberId) ?? new Set<string>();
+
+    if (!keys.has(key) && keys.size >= this.config.orderWatchMaxSubscriptions) {
+      throw new ApiError(
+        `Subscription limit reached (${this.config.orderWatchMaxSubscriptions} orders per session, ORDER_WATCH_MAX_SUBSCRIPTIONS)`,
+        429
+      );
+    }
+
+    let watch = this.watches.get(key);
+    if (!watch) {
+      watch = { numerZamowienia, token, subscribers: new Map() };
+      this.watches.set(key, watch);
+    }
+    watch.subscribers.set(subscriberId, listener);
+    keys.add(key);
+    this.subscriptions.set(subscriberId, keys);
+    this.ensureTimer();
+
+    // Punkt odniesienia od razu - zmiana przed pierwszym cyklem też zostanie wykryta
+    if (!watch.snapshot) {
+      await this.check(watch);
+    }
+  }
+
+  /**
+   * Usuwa subskrypcję zamówienia
+   * @returns true, jeśli subskrypcja istniała
+   */
+  unsubscribe(subscriberId: string, numerZamowienia: string, token: string | undefined): boolean {
+    const key = this.watchKey(numerZamowienia, token);
+    const removed = this.subscriptions.get(subscriberId)?.delete(key) ?? false;
+    if (removed) {
+      this.detach(subscriberId, key);
+    }
+    return removed;
+  }
+
+  /**
+   * Usuwa wszystkie subskrypcje subskrybenta (zamknięcie sesji)
+   * @returns liczba usuniętych subskrypcji
+   */
+  removeSubscriber(subscriberId: string): number {
+    const keys = this.subscriptions.get(subscriberId);
+    if (!keys) {
+      return 0;
+    }
+
+    this.subscriptions.delete(subscriberId);
+    for (const key of keys) {
+      this.detach(subscriberId, key);
+    }
+    return keys.size;
+  }
+
+  /**
+   * Zatrzymuje obserwowanie (zamykanie serwera)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Statystyki do /health (bez numerów zamówień i tokenów)
+   */
+  stats(): {
+    interval_ms: number;
+    subscribers: number;
+    watched_orders: number;
+    checks: number;
+    failed_checks: number;
+    notifications: number;
+  } {
+    return {
+      interval_ms: this.config.orderWatchInterval,
+      subscribers: this.subscriptions.size,
+      watched_orders: this.watches.size,
+      checks: this.checks,
+      failed_checks: this.failedChecks,
+      notifications: this.notifications,
+    };
+  }
+
+  /**
+   * Klucz obserwacji - to samo zamówienie widziane z różnymi tokenami może się różnić (RLS)
+   */
+  private watchKey(numerZamowienia: string, token?: string): string {
+    return `${token ? tokenFingerprint(token) : 'anonymous'}:${numerZamowienia}`;
+  }
+
+  private detach(subscriberId: string, key: string): void {
+    const watch = this.watches.get(key);
+    watch?.subscribers.delete(subscriberId);
+    if (watch && watch.subscribers.size === 0) {
+      this.watches.delete(key);
+    }
+    if (this.watches.size === 0) {
+      this.stop();
+    }
+  }
+
+  private ensureTimer(): void {
+    if (this.timer) {
+      return;
+    }
+    // Timer tworzony w żądaniu subskrypcji - każdy cykl dostaje własne ID korelacji i ślad
+    this.timer = setInterval(
+      () => void withRootTraceContext(() => withCorrelationId(randomUUID(), () => this.checkAll())),
+      this.config.orderWatchInterval
+    );
+    this.timer.unref();
+  }
+
+  /**
+   * Sprawdza wszystkie obserwowane zamówienia (cykl pomijany, jeśli poprzedni jeszcze trwa)
+   */
+  private async checkAll(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      await mapWithConcurrency([...this.watches.values()], this.config.verifyConcurrency, (watch) => this.check(watch));
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Sprawdza zamówienie i powiadamia subskrybentów, jeśli status lub wartość się zmieniły
+   * Błąd API (np. otwarty circuit breaker) nie zmienia zapamiętanego stanu
+   */
+  private async check(watch: Watch): Promise<void> {
+    let snapshot: OrderSnapshot;
+    this.checks++;
+
+    try {
+      snapshot = snapshotOf(await this.apiClient.verifyOrder(watch.numerZamowienia, watch.token));
+    } catch (error) {
+      this.failedChecks++;
+      log('warn', `Nie udało się sprawdzić subskrybowanego zamówienia ${watch.numerZamowienia}:`, error);
+      return;
+    }
+
+    const previous = watch.snapshot;
+    watch.snapshot = snapshot;
+    if (!previous || snapshotsEqual(previous, snapshot)) {
+      return;
+    }
+
+    log(
+      'info',
+      `Zamówienie ${watch.numerZamowienia} zmienione (status: ${previous.status} -> ${snapshot.status}, ` +
+        `wartość: ${previous.wartosc_calkowita} -> ${snapshot.wartosc_calkowita}) - powiadamianie ${watch.subscribers.size} subskrybentów`
+    );
+
+    for (const listener of watch.subscribers.values()) {
+      this.notifications++;
+      try {
+        await listener(watch.numerZamowienia);
+      } catch (error) {
+        log('warn', `Nie udało się wysłać powiadomienia o zamówieniu ${watch.numerZamowienia}:`, error);
+      }
+    }
+  }
+}
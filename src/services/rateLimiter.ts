@@ -0,0 +1,257 @@
+/**
+ * Limity wywołań narzędzi per tożsamość (zweryfikowany token / IP)
+ * Token bucket per minutę (globalny i per narzędzie) oraz dzienne limity (UTC)
+ */
+
+import { createHash } from 'node:crypto';
+
+import type { AppConfig } from '../types/index.js';
+
+/**
+ * Rodzaj przekroczonego limitu
+ */
+export type RateLimitKind = 'rate' | 'tool_rate' | 'daily_quota' | 'tool_daily_quota';
+
+/**
+ * Wynik sprawdzenia limitu
+ */
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      kind: RateLimitKind;
+      /** Limit, który został przekroczony (wywołań na minutę lub na dzień) */
+      limit: number;
+      /** Sekundy do ponownej próby */
+      retryAfter: number;
+    };
+
+/**
+ * Źródła tożsamości wywołującego
+ */
+export interface RateLimitIdentity {
+  token?: string;
+  /** Token zweryfikowany lokalnie (JWT) - tylko wtedy identyfikuje wywołującego mimo braku powiązania z IP */
+  verified?: boolean;
+  sessionId?: string;
+  ip?: string;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DailyCounter {
+  day: string;
+  count: number;
+}
+
+/**
+ * Po przekroczeniu tej liczby kluczy pełne (nieużywane) kubełki są usuwane
+ */
+const PRUNE_THRESHOLD = 10000;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Skrót tokena identyfikujący wywołującego (nigdy sam token)
+ */
+export function tokenFingerprint(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+/**
+ * Klucz limitu dla wywołującego (skrót tokena, nigdy sam token)
+ * Niezweryfikowany token i ID sesji klient może zmieniać przy każdym żądaniu, więc przy znanym IP limit dotyczy adresu
+ */
+export function rateLimitKey(identity: RateLimitIdentity): string {
+  if (identity.token && identity.verified) {
+    return `token:${tokenFingerprint(identity.token)}`;
+  }
+  if (identity.ip) {
+    return `ip:${identity.ip}`;
+  }
+  // Bez IP (stdio) token i sesja pochodzą z konfiguracji serwera lub jedynego klienta
+  if (identity.token) {
+    return `token:${tokenFingerprint(identity.token)}`;
+  }
+  if (identity.sessionId) {
+    return `session:${identity.sessionId}`;
+  }
+  return 'local';
+}
+
+/**
+ * Bieżąca data UTC (YYYY-MM-DD) - dzienne limity resetują się o północy UTC
+ */
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Sekundy do najbliższej północy UTC
+ */
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - now) / 1000));
+}
+
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private dailyCounters: Map<string, DailyCounter> = new Map();
+  private throttled: Record<RateLimitKind, number> = {
+    rate: 0,
+    tool_rate: 0,
+    daily_quota: 0,
+    tool_daily_quota: 0,
+  };
+
+  constructor(private readonly config: AppConfig) {}
+
+  /**
+   * Czy jakikolwiek limit jest skonfigurowany
+   */
+  get enabled(): boolean {
+    return (
+      this.config.rateLimitPerMinute > 0 ||
+      Object.keys(this.config.rateLimitTools).length > 0 ||
+      this.config.dailyQuota > 0 ||
+      Object.keys(this.config.dailyQuotaTools).length > 0
+    );
+  }
+
+  /**
+   * Sprawdza wszystkie limity i - jeśli żaden nie jest przekroczony - zużywa jedno wywołanie z każdego
+   * @param key - Klucz tożsamości (rateLimitKey)
+   * @param toolName - Nazwa wywoływanego narzędzia
+   */
+  consume(key: string, toolName: string): RateLimitDecision {
+    const now = Date.now();
+    const day = utcDay(now);
+
+    const buckets: Array<{ id: string; perMinute: number; kind: RateLimitKind }> = [];
+    if (this.config.rateLimitPerMinute > 0) {
+      buckets.push({ id: key, perMinute: this.config.rateLimitPerMinute, kind: 'rate' });
+    }
+    const toolPerMinute = this.config.rateLimitTools[toolName];
+    if (toolPerMinute > 0) {
+      buckets.push({ id: `${key}|${toolName}`, perMinute: toolPerMinute, kind: 'tool_rate' });
+    }
+
+    const quotas: Array<{ id: string; limit: number; kind: RateLimitKind }> = [];
+    if (this.config.dailyQuota > 0) {
+      quotas.push({ id: key, limit: this.config.dailyQuota, kind: 'daily_quota' });
+    }
+    const toolQuota = this.config.dailyQuotaTools[toolName];
+    if (toolQuota > 0) {
+      quotas.push({ id: `${key}|${toolName}`, limit: toolQuota, kind: 'tool_daily_quota' });
+    }
+
+    // Najpierw sprawdź wszystkie limity, aby odrzucone wywołanie nie zużyło części z nich
+    for (const quota of quotas) {
+      const counter = this.dailyCounters.get(quota.id);
+      const used = counter && counter.day === day ? counter.count : 0;
+      if (used >= quota.limit) {
+        return this.reject(quota.kind, quota.limit, secondsUntilUtcMidnight(now));
+      }
+    }
+
+    const refilled = buckets.map((bucket) => ({ ...bucket, state: this.refill(bucket.id, bucket.perMinute, now) }));
+    for (const bucket of refilled) {
+      if (bucket.state.tokens < 1) {
+        const msPerToken = MINUTE_MS / bucket.perMinute;
+        return this.reject(bucket.kind, bucket.perMinute, Math.ceil(((1 - bucket.state.tokens) * msPerToken) / 1000));
+      }
+    }
+
+    for (const bucket of refilled) {
+      bucket.state.tokens -= 1;
+      this.buckets.set(bucket.id, bucket.state);
+    }
+
+    for (const quota of quotas) {
+      const counter = this.dailyCounters.get(quota.id);
+      this.dailyCounters.set(quota.id, {
+        day,
+        count: counter && counter.day === day ? counter.count + 1 : 1,
+      });
+    }
+
+    if (this.buckets.size + this.dailyCounters.size > PRUNE_THRESHOLD) {
+      this.prune(now);
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Stan kubełka po uzupełnieniu tokenów za czas od ostatniego użycia
+   */
+  private refill(id: string, perMinute: number, now: number): Bucket {
+    const bucket = this.buckets.get(id);
+
+    if (!bucket) {
+      return { tokens: perMinute, updatedAt: now };
+    }
+
+    const tokens = Math.min(perMinute, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / MINUTE_MS);
+    return { tokens, updatedAt: now };
+  }
+
+  private reject(kind: RateLimitKind, limit: number, retryAfter: number): RateLimitDecision {
+    this.throttled[kind]++;
+    return { allowed: false, kind, limit, retryAfter };
+  }
+
+  /**
+   * Usuwa kubełki, które zdążyły się całkowicie uzupełnić, i liczniki z poprzednich dni
+   */
+  private prune(now: number): void {
+    for (const [id, bucket] of this.buckets.entries()) {
+      if (now - bucket.updatedAt >= MINUTE_MS) {
+        this.buckets.delete(id);
+      }
+    }
+
+    const day = utcDay(now);
+    for (const [id, counter] of this.dailyCounters.entries()) {
+      if (counter.day !== day) {
+        this.dailyCounters.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Statystyki do /health (bez kluczy tożsamości)
+   */
+  stats(): {
+    enabled: boolean;
+    limits: {
+      per_minute: number;
+      tools_per_minute: Record<string, number>;
+      daily_quota: number;
+      tools_daily_quota: Record<string, number>;
+    };
+    tracked_keys: number;
+    throttled: Record<RateLimitKind, number> & { total: number };
+  } {
+    this.prune(Date.now());
+
+    return {
+      enabled: this.enabled,
+      limits: {
+        per_minute: this.config.rateLimitPerMinute,
+        tools_per_minute: this.config.rateLimitTools,
+        daily_quota: this.config.dailyQuota,
+        tools_daily_quota: this.config.dailyQuotaTools,
+      },
+      tracked_keys: new Set([...this.buckets.keys(), ...this.dailyCounters.keys()].map((id) => id.split('|')[0])).size,
+      throttled: {
+        ...this.throttled,
+        total: Object.values(this.throttled).reduce((sum, count) => sum + count, 0),
+      },
+    };
+  }
+}
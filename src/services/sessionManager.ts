@@ -0,0 +1,227 @@
+/**
+ * Zarządzanie sesjami MCP (Streamable HTTP)
+ * Limity liczby sesji, wygaszanie nieaktywnych sesji i maksymalny czas życia sesji
+ */
+
+import { createHash } from 'node:crypto';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+import type { AppConfig } from '../types/index.js';
+import { log } from '../helpers/logger.js';
+import { TtlCache } from '../helpers/ttlCache.js';
+
+/**
+ * Powód usunięcia sesji przez serwer
+ */
+export type EvictionReason = 'idle' | 'lifetime';
+
+/**
+ * Sesja MCP
+ */
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  tokenKey: string;
+  createdAt: number;
+  lastActivity: number;
+  /** Liczba otwartych żądań HTTP (np. stream SSE) - sesja z otwartym żądaniem nie jest bezczynna */
+  openRequests: number;
+}
+
+/**
+ * Odmowa utworzenia sesji z powodu limitu
+ */
+export interface SessionLimitExceeded {
+  statusCode: number;
+  message: string;
+}
+
+/**
+ * Liczba zapamiętanych ID usuniętych sesji (dla czytelnego błędu przy ich ponownym użyciu)
+ */
+const MAX_REMEMBERED_EVICTIONS = 10000;
+
+export class SessionManager {
+  private sessions: Map<string, SessionEntry> = new Map();
+  private evictedSessions: TtlCache<EvictionReason>;
+  private evictions: Record<EvictionReason, number> = { idle: 0, lifetime: 0 };
+  private rejected = 0;
+
+  constructor(private readonly config: AppConfig) {
+    this.evictedSessions = new TtlCache<EvictionReason>(config.sessionMaxLifetime, MAX_REMEMBERED_EVICTIONS);
+  }
+
+  /**
+   * Klucz tokena do limitu sesji per token (skrót tokena, nigdy sam token)
+   */
+  static tokenKey(bearerToken?: string): string {
+    if (!bearerToken) {
+      return 'anonymous';
+    }
+    return createHash('sha256').update(bearerToken).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Sprawdza, czy można utworzyć nową sesję dla tokena
+   * @returns null lub opis przekroczonego limitu
+   */
+  checkCapacity(tokenKey: string): SessionLimitExceeded | null {
+    if (this.sessions.size >= this.config.maxSessions) {
+      this.rejected++;
+      return {
+        statusCode: 503,
+        message: `Server session limit reached (${this.config.maxSessions}). Try again later.`,
+      };
+    }
+
+    let tokenSessions = 0;
+    for (const session of this.sessions.values()) {
+      if (session.tokenKey === tokenKey) {
+        tokenSessions++;
+      }
+    }
+
+    if (tokenSessions >= this.config.maxSessionsPerToken) {
+      this.rejected++;
+      return {
+        statusCode: 429,
+        message: `Too many concurrent sessions for this token (max ${this.config.maxSessionsPerToken}). Close unused sessions with DELETE /mcp.`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Rejestruje zainicjalizowaną sesję
+   */
+  add(sessionId: string, transport: StreamableHTTPServerTransport, tokenKey: string): void {
+    const now = Date.now();
+    this.sessions.set(sessionId, { transport, tokenKey, createdAt: now, lastActivity: now, openRequests: 0 });
+  }
+
+  /**
+   * Zwraca transport sesji i odnotowuje aktywność
+   */
+  get(sessionId: string): StreamableHTTPServerTransport | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session?.transport;
+  }
+
+  has(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Czy żądanie z tokenem o danym kluczu należy do sesji (ID sesji nie jest sekretem - sesja jest związana z tokenem)
+   */
+  isOwnedBy(sessionId: string, tokenKey: string): boolean {
+    return this.sessions.get(sessionId)?.tokenKey === tokenKey;
+  }
+
+  /**
+   * Śledzi otwarte żądanie HTTP sesji aż do zamknięcia odpowiedzi
+   */
+  trackRequest(sessionId: string, res: { once(event: 'close', listener: () => void): unknown }): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.openRequests++;
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Usuwa sesję z rejestru (bez zamykania transportu)
+   */
+  remove(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Powód usunięcia sesji przez serwer (undefined, jeśli sesja nie była usunięta)
+   */
+  evictionReason(sessionId: string): EvictionReason | undefined {
+    return this.evictedSessions.get(sessionId)?.value;
+  }
+
+  /**
+   * Zamyka sesje bezczynne dłużej niż SESSION_IDLE_TIMEOUT i starsze niż SESSION_MAX_LIFETIME
+   * @returns ID i powody usuniętych sesji
+   */
+  async evictExpired(): Promise<Array<{ sessionId: string; reason: EvictionReason }>> {
+    const now = Date.now();
+    const evicted: Array<{ sessionId: string; reason: EvictionReason }> = [];
+
+    for (const [sessionId, session] of [...this.sessions.entries()]) {
+      let reason: EvictionReason | null = null;
+
+      if (now - session.createdAt >= this.config.sessionMaxLifetime) {
+        reason = 'lifetime';
+      } else if (session.openRequests === 0 && now - session.lastActivity >= this.config.sessionIdleTimeout) {
+        reason = 'idle';
+      }
+
+      if (!reason) {
+        continue;
+      }
+
+      this.sessions.delete(sessionId);
+      this.evictedSessions.set(sessionId, reason);
+      this.evictions[reason]++;
+      evicted.push({ sessionId, reason });
+
+      // Zamknięcie transportu zwalnia serwer MCP sesji wraz z przechwyconym tokenem
+      // Błąd zamknięcia jednej sesji nie przerywa wygaszania pozostałych
+      try {
+        await session.transport.close();
+      } catch (error) {
+        log('warn', `Nie udało się zamknąć wygaszonej sesji ${sessionId}:`, error);
+      }
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Wszystkie aktywne sesje (np. do zamknięcia przy wyłączaniu serwera)
+   */
+  entries(): Array<[string, StreamableHTTPServerTransport]> {
+    return [...this.sessions.entries()].map(([sessionId, session]) => [sessionId, session.transport]);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Statystyki do /health
+   */
+  stats(): {
+    active: number;
+    limits: { max_sessions: number; max_sessions_per_token: number; idle_timeout_ms: number; max_lifetime_ms: number };
+    evictions: Record<EvictionReason, number> & { total: number };
+    rejected: number;
+  } {
+    return {
+      active: this.sessions.size,
+      limits: {
+        max_sessions: this.config.maxSessions,
+        max_sessions_per_token: this.config.maxSessionsPerToken,
+        idle_timeout_ms: this.config.sessionIdleTimeout,
+        max_lifetime_ms: this.config.sessionMaxLifetime,
+      },
+      evictions: {
+        ...this.evictions,
+        total: this.evictions.idle + this.evictions.lifetime,
+      },
+      rejected: this.rejected,
+    };
+  }
+}
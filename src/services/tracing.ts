@@ -0,0 +1,238 @@
+/**
+ * Tracing OpenTelemetry (TRACING_EXPORTER)
+ * Spany żądań MCP, narzędzi, prób żądań API i wywołań exec_sql; kontekst W3C (traceparent) propagowany do Supabase
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type express from 'express';
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+} from '@opentelemetry/api';
+import { ExportResultCode, W3CTraceContextPropagator, hrTimeToMilliseconds, hrTimeToTimeStamp, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+} from '@opentelemetry/semantic-conventions';
+
+import type { AppConfig } from '../types/index.js';
+
+/**
+ * Tracer serwera - bez zarejestrowanego providera (TRACING_EXPORTER=none) spany są no-op
+ */
+const tracer = trace.getTracer('express-erp-mcp', '1.0.0');
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Eksporter zapisujący spany jako linie JSON (konsola - stderr, lub plik)
+ * stdout nie jest używany, bo w trybie stdio jest kanałem JSON-RPC
+ */
+export class JsonLinesSpanExporter implements SpanExporter {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly write: (lines: string) => Promise<void>) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map((span) => `${JSON.stringify(serializeSpan(span))}\n`).join('');
+    this.queue = this.queue
+      .then(() => this.write(lines))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {
+    await this.queue;
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.queue;
+  }
+}
+
+/**
+ * Span w postaci JSON (czytelnej bez kolektora)
+ */
+function serializeSpan(span: ReadableSpan): Record<string, unknown> {
+  const spanContext = span.spanContext();
+  return {
+    trace_id: spanContext.traceId,
+    span_id: spanContext.spanId,
+    parent_span_id: span.parentSpanContext?.spanId || null,
+    name: span.name,
+    kind: span.kind,
+    start_time: hrTimeToTimeStamp(span.startTime),
+    duration_ms: hrTimeToMilliseconds(span.duration),
+    status: span.status,
+    attributes: span.attributes,
+    events: span.events.map((event) => ({
+      name: event.name,
+      time: hrTimeToTimeStamp(event.time),
+      attributes: event.attributes || {},
+    })),
+  };
+}
+
+/**
+ * Tworzy eksporter na podstawie konfiguracji
+ */
+function createExporter(config: AppConfig): SpanExporter | null {
+  switch (config.tracingExporter) {
+    case 'otlp':
+      // Adres i nagłówki kolektora ze standardowych zmiennych OTEL_EXPORTER_OTLP_*
+      return new OTLPTraceExporter();
+    case 'console':
+      return new JsonLinesSpanExporter(
+        (lines) => new Promise((resolve, reject) => process.stderr.write(lines, (error) => (error ? reject(error) : resolve())))
+      );
+    case 'file':
+      return new JsonLinesSpanExporter(async (lines) => {
+        await fs.mkdir(path.dirname(config.tracingFile), { recursive: true });
+        await fs.appendFile(config.tracingFile, lines, 'utf8');
+      });
+    case 'none':
+      return null;
+  }
+}
+
+/**
+ * Włącza tracing (TRACING_EXPORTER) - rejestruje provider i propagator W3C Trace Context
+ * @returns true, jeśli tracing został włączony
+ */
+export function initTracing(config: AppConfig): boolean {
+  const exporter = createExporter(config);
+  if (!exporter) {
+    return false;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.tracingServiceName,
+      [ATTR_SERVICE_VERSION]: '1.0.0',
+    }),
+    // Eksport do pliku / konsoli od razu (lokalne debugowanie), do kolektora w paczkach
+    spanProcessors: [config.tracingExporter === 'otlp' ? new BatchSpanProcessor(exporter) : new SimpleSpanProcessor(exporter)],
+  });
+  provider.register({ propagator: new W3CTraceContextPropagator() });
+
+  return true;
+}
+
+/**
+ * Wysyła pozostałe spany i wyłącza tracing (przy zamykaniu serwera)
+ */
+export async function shutdownTracing(): Promise<void> {
+  await provider?.shutdown();
+  provider = null;
+}
+
+/**
+ * Wykonuje funkcję w nowym aktywnym spanie - błąd jest zapisywany w spanie i rzucany dalej
+ * @param name - Nazwa spanu
+ * @param options - Rodzaj spanu i atrybuty początkowe
+ * @param fn - Funkcja otrzymująca span (np. do dodania atrybutów wyniku)
+ */
+export function withSpan<T>(
+  name: string,
+  options: { kind?: SpanKind; attributes?: Attributes },
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Metody JSON-RPC w treści żądania MCP (pojedyncze żądanie lub batch)
+ */
+function jsonRpcMethods(body: unknown): string[] {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages
+    .map((message) => (message && typeof message === 'object' ? (message as { method?: unknown }).method : undefined))
+    .filter((method): method is string => typeof method === 'string');
+}
+
+/**
+ * Middleware tworzący span żądania MCP (POST /mcp) jako kontynuację śladu klienta (traceparent)
+ * Span kończy się po wysłaniu odpowiedzi, także strumieniowej (SSE)
+ */
+export const traceMcpRequest: express.RequestHandler = (req, res, next) => {
+  const methods = jsonRpcMethods(req.body);
+  const toolName = methods.length === 1 && methods[0] === 'tools/call' ? req.body?.params?.name : undefined;
+  const attributes: Attributes = {
+    [ATTR_HTTP_REQUEST_METHOD]: req.method,
+    [ATTR_HTTP_ROUTE]: req.path,
+    'mcp.method': methods.join(',') || 'unknown',
+  };
+  if (typeof toolName === 'string') {
+    attributes['mcp.tool.name'] = toolName;
+  }
+  if (req.get('mcp-session-id')) {
+    attributes['mcp.session.id'] = req.get('mcp-session-id')!;
+  }
+
+  withIncomingTraceContext(req.headers, () => {
+    tracer.startActiveSpan(`mcp ${methods.join(',') || 'request'}`, { kind: SpanKind.SERVER, attributes }, (span) => {
+      res.on('close', () => {
+        span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+        if (res.statusCode >= 500) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        span.end();
+      });
+      next();
+    });
+  });
+};
+
+/**
+ * Nagłówki W3C Trace Context (traceparent, tracestate) bieżącego spanu dla żądań wychodzących
+ */
+export function traceHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+/**
+ * Wykonuje funkcję poza bieżącym śladem (zadania w tle nie są częścią żądania, które je uruchomiło)
+ */
+export function withRootTraceContext<T>(fn: () => T): T {
+  return context.with(ROOT_CONTEXT, fn);
+}
+
+/**
+ * Wykonuje funkcję w kontekście śladu z nagłówków żądania przychodzącego (traceparent)
+ */
+export function withIncomingTraceContext<T>(headers: Record<string, string | string[] | undefined>, fn: () => T): T {
+  return context.with(propagation.extract(context.active(), headers), fn);
+}
@@ -0,0 +1,179 @@
+/**
+ * Narzędzie MCP do przeglądania audytu wywołań narzędzi (tylko administratorzy)
+ */
+
+import { z } from 'zod';
+import type express from 'express';
+
+import type { AuditLogger } from '../services/auditLog.js';
+import { DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT } from '../services/auditLog.js';
+import { authClaimsFrom } from '../services/jwtVerifier.js';
+import { log } from '../helpers/logger.js';
+import type { AuditQuery, AuthClaims } from '../types/index.js';
+import type { ToolDefinition, ToolResult } from './registry.js';
+import { auditEntrySchema } from './schemas.js';
+
+/**
+ * Definicja narzędzia get_audit_log
+ */
+export const getAuditLogTool: ToolDefinition = {
+  name: 'get_audit_log',
+  title: 'Get Audit Log',
+  description:
+    'Searches the audit log of MCP tool invocations. Admin-only. ' +
+    'Returns who called which tool, when, with what arguments, the SQL actually executed, and the outcome. ' +
+    '\n\n' +
+    '📋 USE CASES:\n' +
+    '• Review what a specific user or session did\n' +
+    '• Investigate failed, denied or rate-limited calls\n' +
+    '• Check which SQL queries were executed against the database\n' +
+    '\n' +
+    '💡 USAGE TIPS:\n' +
+    '• All filters are optional and combined with AND\n' +
+    '• Entries are returned newest first\n' +
+    '• Use since/until (ISO 8601) to narrow the time range\n' +
+    '\n' +
+    '📊 RETURNED DATA:\n' +
+    '• Timestamp, session, user ID, role and email\n' +
+    '• Tool name and arguments (sensitive keys are redacted)\n' +
+    '• Executed SQL, row count, duration and outcome\n' +
+    '\n' +
+    '⚠️ IMPORTANT:\n' +
+    '• Requires a verified token with an admin role or user ID (AUDIT_ADMIN_ROLES / AUDIT_ADMIN_USERS)',
+  inputSchema: {
+    tool: z.string().min(1).max(100).optional().describe('Filter by tool name (e.g., execute_sql_limited)'),
+    user_id: z.string().min(1).max(200).optional().describe('Filter by user ID (JWT sub claim)'),
+    session_id: z.string().min(1).max(200).optional().describe('Filter by MCP session ID'),
+    outcome: z
+      .enum(['success', 'error', 'denied', 'rate_limited', 'cancelled'])
+      .optional()
+      .describe('Filter by outcome: success, error, denied (missing scopes), rate_limited or cancelled (by the client)'),
+    since: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this time (ISO 8601)'),
+    until: z.string().datetime({ offset: true }).optional().describe('Only entries before this time (ISO 8601)'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_AUDIT_QUERY_LIMIT)
+      .optional()
+      .default(DEFAULT_AUDIT_QUERY_LIMIT)
+      .describe(`Maximum number of entries to return. Default: ${DEFAULT_AUDIT_QUERY_LIMIT}. Max: ${MAX_AUDIT_QUERY_LIMIT}.`),
+  },
+  outputSchema: {
+    entries: z.array(auditEntrySchema),
+    count: z.number(),
+  },
+  requires: ['auditLog'],
+  scopes: ['audit:read'],
+  handler: (args, { auditLog, auth }) => handleGetAuditLog(auditLog, args, auth),
+};
+
+/**
+ * Handler dla narzędzia get_audit_log
+ * @param auditLog - Audyt wywołań
+ * @param args - Filtry (AuditQuery)
+ * @param auth - Claimy zweryfikowanego tokena wywołującego
+ */
+export async function handleGetAuditLog(
+  auditLog: AuditLogger,
+  args: unknown,
+  auth?: AuthClaims
+): Promise<ToolResult> {
+  if (!auditLog.isAdmin(auth)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: '❌ BRAK UPRAWNIEŃ\n\nAudyt mogą przeglądać tylko administratorzy (AUDIT_ADMIN_ROLES / AUDIT_ADMIN_USERS).',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  try {
+    const entries = await auditLog.query((args || {}) as AuditQuery);
+
+    let responseText = `🧾 AUDYT WYWOŁAŃ NARZĘDZI\n`;
+    responseText += `${'='.repeat(60)}\n\n`;
+    responseText += `Liczba wpisów: ${entries.length}\n\n`;
+
+    for (const entry of entries) {
+      responseText += `• ${entry.timestamp} ${entry.tool} → ${entry.outcome} (${entry.duration_ms} ms)\n`;
+      responseText += `  Użytkownik: ${entry.user_id || 'brak'}${entry.role ? ` (${entry.role})` : ''}, sesja: ${entry.session_id || 'brak'}\n`;
+      if (entry.sql) {
+        responseText += `  SQL: ${entry.sql}\n`;
+      }
+      if (entry.row_count !== null) {
+        responseText += `  Wiersze: ${entry.row_count}\n`;
+      }
+      if (entry.error) {
+        responseText += `  Błąd: ${entry.error.split('\n').filter(Boolean).join(' ')}\n`;
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { entries, count: entries.length },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ BŁĄD ODCZYTU AUDYTU\n\n${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handler GET /audit dla serwerów HTTP - te same filtry co w narzędziu get_audit_log (tylko administratorzy)
+ * Montowany za middleware weryfikacji JWT, który ustawia req.auth
+ * @param auditLog - Audyt wywołań (null - AUDIT_LOG=none)
+ */
+export function createAuditHandler(auditLog: AuditLogger | null): express.RequestHandler {
+  return async (req, res) => {
+    if (!auditLog) {
+      res.status(404).json({ error: 'Audyt jest wyłączony (AUDIT_LOG=none)' });
+      return;
+    }
+
+    if (!auditLog.isAdmin(authClaimsFrom(req.auth))) {
+      res.status(403).json({
+        error: 'Audyt mogą przeglądać tylko administratorzy (AUDIT_ADMIN_ROLES / AUDIT_ADMIN_USERS)',
+      });
+      return;
+    }
+
+    const { limit, ...filters } = req.query;
+    const parsed = z.object(getAuditLogTool.inputSchema).safeParse({
+      ...filters,
+      limit: typeof limit === 'string' ? Number(limit) : limit,
+    });
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Nieprawidłowe filtry audytu',
+        details: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+      return;
+    }
+
+    try {
+      const entries = await auditLog.query(parsed.data);
+      res.json({ entries, count: entries.length });
+    } catch (error) {
+      log('error', 'Błąd odczytu audytu:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+}
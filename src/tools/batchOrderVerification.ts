@@ -0,0 +1,213 @@
+/**
+ * Narzędzie MCP do weryfikacji wielu zamówień naraz
+ */
+
+import { z } from 'zod';
+
+import type { ApiClient } from '../services/apiClient.js';
+import type {
+  BatchOrderVerificationItem,
+  BatchOrderVerificationSummary,
+  BatchOrderVerificationResponse,
+  RequestOptions,
+} from '../types/index.js';
+import type { ToolDefinition, ToolResult } from './registry.js';
+import { batchOrderVerificationResponseSchema } from './schemas.js';
+
+/**
+ * Maksymalna liczba zamówień w jednym wywołaniu
+ */
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * Definicja narzędzia verify_orders
+ */
+export const verifyOrdersTool: ToolDefinition = {
+  name: 'verify_orders',
+  title: 'Verify Orders (batch)',
+  description:
+    'Verifies many orders at once in the ERP system and returns per-order results plus a summary. ' +
+    'Use this instead of calling verify_order repeatedly when a message mentions several order numbers. ' +
+    '\n\n' +
+    '📋 USE CASES:\n' +
+    '• Complaints or e-mails listing several order numbers\n' +
+    '• Checking a list of orders before bulk processing\n' +
+    '• Summarising order values and customers for a set of orders\n' +
+    '\n' +
+    '💡 USAGE TIPS:\n' +
+    `• Pass up to ${MAX_BATCH_SIZE} order numbers (duplicates are verified once)\n` +
+    '• Orders are verified in parallel with bounded concurrency\n' +
+    '• One failing order does not stop the others - check the per-order result\n' +
+    '\n' +
+    '📊 RETURNED DATA:\n' +
+    '• Per order: found / not_found / error with order details or error message\n' +
+    '• Summary: counts, total value per order status, distinct customers\n' +
+    '\n' +
+    '⚠️ IMPORTANT:\n' +
+    '• Order numbers are case-sensitive\n' +
+    '• Authentication token determines data visibility (RLS applies)',
+  inputSchema: {
+    numery_zamowien: z
+      .array(z.string().min(1).max(50))
+      .min(1)
+      .max(MAX_BATCH_SIZE)
+      .describe(`Order numbers to verify (e.g., ["OP1001", "OP1002"]). 1-${MAX_BATCH_SIZE} items. Must be exact matches.`),
+  },
+  outputSchema: batchOrderVerificationResponseSchema.shape,
+  requires: ['apiClient'],
+  scopes: ['orders:read'],
+  handler: (args, { apiClient, bearerToken, signal, reportProgress }) =>
+    handleVerifyOrders(apiClient, args, bearerToken, { signal, onProgress: reportProgress }),
+};
+
+/**
+ * Buduje podsumowanie partii zamówień
+ */
+function summarize(orders: BatchOrderVerificationItem[]): BatchOrderVerificationSummary {
+  const byStatus = new Map<string, { orders: number; total_value: number }>();
+  const customers = new Map<string, BatchOrderVerificationSummary['distinct_customers'][number]>();
+  let totalValue = 0;
+
+  for (const item of orders) {
+    const order = item.daneZamowienia;
+    if (item.result !== 'found' || !order) {
+      continue;
+    }
+
+    const value = Number(order.wartosc_calkowita) || 0;
+    totalValue += value;
+
+    const statusTotal = byStatus.get(order.status) || { orders: 0, total_value: 0 };
+    statusTotal.orders++;
+    statusTotal.total_value += value;
+    byStatus.set(order.status, statusTotal);
+
+    const customerKey = order.klient.email.toLowerCase();
+    const customer = customers.get(customerKey);
+    if (customer) {
+      customer.orders++;
+    } else {
+      customers.set(customerKey, { ...order.klient, orders: 1 });
+    }
+  }
+
+  return {
+    total: orders.length,
+    found: orders.filter((item) => item.result === 'found').length,
+    not_found: orders.filter((item) => item.result === 'not_found').length,
+    errors: orders.filter((item) => item.result === 'error').length,
+    total_value: roundMoney(totalValue),
+    by_status: [...byStatus.entries()].map(([status, total]) => ({
+      status,
+      orders: total.orders,
+      total_value: roundMoney(total.total_value),
+    })),
+    distinct_customers: [...customers.values()],
+  };
+}
+
+/**
+ * Zaokrągla kwotę do groszy (unika błędów sumowania liczb zmiennoprzecinkowych)
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Handler dla narzędzia verify_orders
+ * @param apiClient - Klient API
+ * @param args - Argumenty narzędzia
+ * @param bearerToken - Token autoryzacyjny (opcjonalny, przekazywany do Supabase)
+ * @param options - Sygnał anulowania i raportowanie postępu wywołania MCP
+ */
+export async function handleVerifyOrders(
+  apiClient: ApiClient,
+  args: unknown,
+  bearerToken?: string,
+  options: RequestOptions = {}
+): Promise<ToolResult> {
+  try {
+    // Walidacja argumentów
+    if (!args || typeof args !== 'object') {
+      throw new Error('Nieprawidłowe argumenty narzędzia');
+    }
+
+    const { numery_zamowien } = args as { numery_zamowien?: unknown };
+
+    if (
+      !Array.isArray(numery_zamowien) ||
+      numery_zamowien.length === 0 ||
+      numery_zamowien.some((numer) => typeof numer !== 'string')
+    ) {
+      throw new Error('Parametr numery_zamowien musi być niepustą tablicą ciągów znaków');
+    }
+
+    const numbers = [...new Set((numery_zamowien as string[]).map((numer) => numer.trim()))];
+
+    if (numbers.length > MAX_BATCH_SIZE) {
+      throw new Error(`Można zweryfikować najwyżej ${MAX_BATCH_SIZE} zamówień naraz`);
+    }
+
+    // Weryfikacja z ograniczoną współbieżnością
+    const orders = await apiClient.verifyOrders(numbers, bearerToken, options);
+    const summary = summarize(orders);
+    const response: BatchOrderVerificationResponse = { orders, summary };
+
+    // Formatowanie odpowiedzi
+    let responseText = `📦 WERYFIKACJA ZAMÓWIEŃ (${summary.total})\n`;
+    responseText += `${'━'.repeat(40)}\n`;
+
+    for (const item of orders) {
+      if (item.result === 'found' && item.daneZamowienia) {
+        const order = item.daneZamowienia;
+        responseText += `✓ ${item.numer_zamowienia} - ${order.status}, ${order.wartosc_calkowita} PLN, ` +
+          `${order.klient.imie} ${order.klient.nazwisko} <${order.klient.email}>\n`;
+      } else if (item.result === 'not_found') {
+        responseText += `✗ ${item.numer_zamowienia} - nie znaleziono\n`;
+      } else {
+        responseText += `❌ ${item.numer_zamowienia} - błąd${item.error_code ? ` (kod ${item.error_code})` : ''}: ${item.error}\n`;
+      }
+    }
+
+    responseText += `\n📊 PODSUMOWANIE\n`;
+    responseText += `${'━'.repeat(40)}\n`;
+    responseText += `• Znalezione: ${summary.found}, nieznalezione: ${summary.not_found}, błędy: ${summary.errors}\n`;
+    responseText += `• Wartość całkowita: ${summary.total_value} PLN\n`;
+
+    for (const status of summary.by_status) {
+      responseText += `  - ${status.status}: ${status.orders} zam., ${status.total_value} PLN\n`;
+    }
+
+    responseText += `• Unikalni klienci: ${summary.distinct_customers.length}\n`;
+
+    for (const customer of summary.distinct_customers) {
+      responseText += `  - ${customer.imie} ${customer.nazwisko} <${customer.email}> (${customer.orders} zam.)\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...response },
+      audit: { rowCount: response.summary.found },
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error
+        ? `Błąd: ${error.message}`
+        : 'Wystąpił nieoczekiwany błąd podczas weryfikacji zamówień';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ BŁĄD WERYFIKACJI ZAMÓWIEŃ\n\n${errorMessage}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Narzędzie MCP do wyszukiwania klientów w tabeli "Klienci"
+ */
+
+import { z } from 'zod';
+
+import type { DatabaseClient } from '../services/databaseClient.js';
+import type { CustomerSearchField, RequestOptions } from '../types/index.js';
+import { ApiError } from '../types/index.js';
+import { CUSTOMER_SEARCH_FIELDS } from '../helpers/customerSearch.js';
+import type { ToolDefinition, ToolResult } from './registry.js';
+import { customerSearchResponseSchema } from './schemas.js';
+
+/**
+ * Domyślna i maksymalna liczba zwracanych klientów
+ */
+const DEFAULT_CUSTOMER_LIMIT = 10;
+const MAX_CUSTOMER_LIMIT = 50;
+
+/**
+ * Definicja narzędzia find_customer
+ */
+export const findCustomerTool: ToolDefinition = {
+  name: 'find_customer',
+  title: 'Find Customer',
+  description:
+    'Finds customers in the "Klienci" table by e-mail, first name, surname or phone number and ranks them by match quality. ' +
+    'Use this instead of writing SQL against "Klienci" when you need to identify a customer.' +
+    '\n\n' +
+    '📋 USE CASES:\n' +
+    '• Identify the customer behind a complaint or e-mail\n' +
+    '• Find a customer when only part of the name or a misspelled name is known\n' +
+    '• Look up a customer by phone number in any format (+48 600 123 456, 600-123-456)\n' +
+    '\n' +
+    '💡 USAGE TIPS:\n' +
+    '• Pass free text, e.g. "Łukasz Nowak", "lukasz nowak", "nowak@example.com" or "600123456"\n' +
+    '• Matching ignores case and Polish diacritics (Łukasz = Lukasz) and tolerates small typos (Kowalsky → Kowalski)\n' +
+    '• Every word of the query must match some field; use fields to search only e.g. the surname\n' +
+    '\n' +
+    '📊 RETURNED DATA:\n' +
+    '• Customers (id, imie, nazwisko, email, telefon) with their order count\n' +
+    '• score (0-1) and the fields that matched, best matches first\n' +
+    '\n' +
+    '⚠️ IMPORTANT:\n' +
+    '• Respects Row Level Security (RLS) - only customers visible to your token are returned\n' +
+    '• Use execute_sql_limited with the customer id to get their orders',
+  inputSchema: {
+    query: z
+      .string()
+      .min(2)
+      .max(200)
+      .describe('Text to search for: e-mail, first name, surname, phone number or a combination (e.g. "Anna Kowalska")'),
+    fields: z
+      .array(z.enum(CUSTOMER_SEARCH_FIELDS))
+      .min(1)
+      .optional()
+      .describe('Fields to search: email, imie (first name), nazwisko (surname), telefon (phone). Default: all.'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CUSTOMER_LIMIT)
+      .optional()
+      .default(DEFAULT_CUSTOMER_LIMIT)
+      .describe(`Maximum number of customers to return. Default: ${DEFAULT_CUSTOMER_LIMIT}. Max: ${MAX_CUSTOMER_LIMIT}.`),
+  },
+  outputSchema: customerSearchResponseSchema.shape,
+  requires: ['databaseClient'],
+  scopes: ['database:query'],
+  handler: (args, { databaseClient, bearerToken, signal }) =>
+    handleFindCustomer(databaseClient, args, bearerToken, { signal }),
+};
+
+/**
+ * Handler dla narzędzia find_customer
+ * @param databaseClient - Klient bazy danych
+ * @param args - Argumenty narzędzia
+ * @param bearerToken - Token wywołującego (wyszukiwanie z jego uprawnieniami RLS)
+ * @param options - Sygnał anulowania wywołania MCP
+ */
+export async function handleFindCustomer(
+  databaseClient: DatabaseClient,
+  args: unknown,
+  bearerToken?: string,
+  options: RequestOptions = {}
+): Promise<ToolResult> {
+  try {
+    // Walidacja argumentów
+    if (!args || typeof args !== 'object') {
+      throw new Error('Nieprawidłowe argumenty narzędzia');
+    }
+
+    const params = args as { query?: unknown; fields?: unknown; limit?: unknown };
+
+    if (typeof params.query !== 'string' || params.query.trim().length < 2) {
+      throw new Error('Parametr query musi być ciągiem znaków (minimum 2 znaki)');
+    }
+
+    const fields = params.fields === undefined ? [...CUSTOMER_SEARCH_FIELDS] : params.fields;
+    if (
+      !Array.isArray(fields) ||
+      fields.length === 0 ||
+      fields.some((field) => !CUSTOMER_SEARCH_FIELDS.includes(field as CustomerSearchField))
+    ) {
+      throw new Error(`Parametr fields musi być niepustą tablicą pól: ${CUSTOMER_SEARCH_FIELDS.join(', ')}`);
+    }
+
+    const limit = params.limit === undefined ? DEFAULT_CUSTOMER_LIMIT : params.limit;
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_CUSTOMER_LIMIT) {
+      throw new Error(`Parametr limit musi być liczbą całkowitą w zakresie 1-${MAX_CUSTOMER_LIMIT}`);
+    }
+
+    const query = params.query.trim();
+    const result = await databaseClient.findCustomers(
+      query,
+      fields as CustomerSearchField[],
+      limit,
+      bearerToken,
+      options
+    );
+
+    // Formatowanie odpowiedzi
+    let responseText: string;
+
+    if (result.customers.length === 0) {
+      responseText = `✗ Nie znaleziono klientów pasujących do "${query}"\n\n` +
+        'Sprawdź pisownię lub wyszukaj po innym polu (email, telefon).';
+    } else {
+      responseText = `👤 ZNALEZIENI KLIENCI (${result.count}) - "${query}"\n`;
+      responseText += `${'━'.repeat(40)}\n`;
+
+      for (const customer of result.customers) {
+        responseText += `• ${customer.imie} ${customer.nazwisko} <${customer.email}>`;
+        responseText += customer.telefon ? `, tel. ${customer.telefon}` : '';
+        responseText += ` - ID: ${customer.id}, zamówień: ${customer.orders}\n`;
+        responseText += `  trafność: ${customer.score} (${customer.matched_fields.join(', ')})\n`;
+      }
+    }
+
+    if (result.truncated) {
+      responseText += '\n⚠️ Zapytanie pasuje do wielu klientów - przeszukano tylko część. Doprecyzuj zapytanie.\n';
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { ...result },
+      audit: { rowCount: result.count },
+    };
+  } catch (error) {
+    // Obsługa błędów
+    let errorMessage: string;
+
+    if (error instanceof ApiError) {
+      errorMessage = `Błąd wyszukiwania klientów: ${error.message}`;
+
+      if (error.message.includes('not configured')) {
+        errorMessage +=
+          '\n\nAby użyć narzędzi bazodanowych, skonfiguruj zmienne środowiskowe:\n' +
+          '• SUPABASE_PROJECT_URL\n' +
+          '• SUPABASE_SERVICE_ROLE_KEY';
+      }
+    } else if (error instanceof Error) {
+      errorMessage = `Błąd: ${error.message}`;
+    } else {
+      errorMessage = 'Wystąpił nieoczekiwany błąd podczas wyszukiwania klientów';
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ BŁĄD WYSZUKIWANIA KLIENTÓW\n\n${errorMessage}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
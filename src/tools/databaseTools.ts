@@ -2,14 +2,28 @@
  * Narzędzia MCP do zarządzania bazą danych
  */
 
+import { z } from 'zod';
+
 import type { DatabaseClient } from '../services/databaseClient.js';
+import type { RequestOptions, SqlParam } from '../types/index.js';
 import { ApiError } from '../types/index.js';
+import { RESULT_FORMATS, formatRows } from '../helpers/resultFormatter.js';
+import type { ResultFormat } from '../helpers/resultFormatter.js';
+import type { ToolDefinition, ToolResult } from './registry.js';
+import { databaseSchemaResponseSchema, sqlQueryResultSchema } from './schemas.js';
+
+/**
+ * Schemat pojedynczego parametru zapytania SQL
+ */
+const sqlScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const sqlParamSchema = z.union([sqlScalarSchema, z.array(sqlScalarSchema)]);
 
 /**
- * Schemat narzędzia get_database_schema
+ * Definicja narzędzia get_database_schema
  */
-export const getDatabaseSchemaTool = {
+export const getDatabaseSchemaTool: ToolDefinition = {
   name: 'get_database_schema',
+  title: 'Get Database Schema',
   description:
     'Retrieves detailed database schema information from Supabase PostgreSQL. ' +
     'Returns comprehensive metadata about tables, columns, relationships, and indexes. ' +
@@ -26,6 +40,7 @@ export const getDatabaseSchemaTool = {
     '• Use it to verify table and column names (case-sensitive!)\n' +
     '• Check foreign key relationships for JOIN queries\n' +
     '• Review indexes to understand query performance\n' +
+    '• Results are cached on the server - pass refresh=true after schema changes (migrations)\n' +
     '\n' +
     '📊 RETURNED DATA:\n' +
     '• Tables: names and schema\n' +
@@ -39,36 +54,42 @@ export const getDatabaseSchemaTool = {
     '• Only shows tables visible with current RLS permissions\n' +
     '• Default schema is "public" (most common)',
   inputSchema: {
-    type: 'object',
-    properties: {
-      include_relations: {
-        type: 'boolean',
-        description:
-          'Include foreign key relationships between tables. Recommended: true. Default: true',
-        default: true,
-      },
-      include_indexes: {
-        type: 'boolean',
-        description: 'Include index information for performance analysis. Default: true',
-        default: true,
-      },
-      schema: {
-        type: 'string',
-        description: 'Database schema name to query. Use "public" for main tables. Default: "public"',
-        default: 'public',
-        minLength: 1,
-        maxLength: 63,
-      },
-    },
-    required: [],
+    include_relations: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Include foreign key relationships between tables. Recommended: true. Default: true'),
+    include_indexes: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Include index information for performance analysis. Default: true'),
+    schema: z
+      .string()
+      .min(1)
+      .max(63)
+      .optional()
+      .default('public')
+      .describe('Database schema name to query. Use "public" for main tables. Default: "public"'),
+    refresh: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Bypass the server-side schema cache and reload metadata from the database. Default: false'),
   },
+  outputSchema: databaseSchemaResponseSchema.shape,
+  requires: ['databaseClient'],
+  scopes: ['database:schema'],
+  handler: (args, { databaseClient, bearerToken, signal, reportProgress }) =>
+    handleGetDatabaseSchema(databaseClient, args, bearerToken, { signal, onProgress: reportProgress }),
 };
 
 /**
- * Schemat narzędzia execute_sql_limited
+ * Definicja narzędzia execute_sql_limited
  */
-export const executeSQLLimitedTool = {
+export const executeSQLLimitedTool: ToolDefinition = {
   name: 'execute_sql_limited',
+  title: 'Execute SQL Query (SELECT only)',
   description:
     'Executes SELECT queries against Supabase PostgreSQL database with automatic record limiting. ' +
     'Provides safe, read-only access to ERP data with built-in security constraints. ' +
@@ -84,18 +105,25 @@ export const executeSQLLimitedTool = {
     '• Call get_database_schema FIRST to see available tables\n' +
     '• Table names with capitals MUST use double quotes: "Zamowienia" not zamowienia\n' +
     '• Default limit is 50 records (override with limit parameter)\n' +
-    '• Use offset for pagination through large result sets\n' +
+    '• Pagination: add ORDER BY on result columns (e.g. ORDER BY data, id) and pass next_cursor as cursor to get the next page\n' +
+    '• Cursor pages do not skip rows with equal ORDER BY values or NULLs; end ORDER BY with a unique column for a predictable order\n' +
+    '• has_more tells exactly whether more rows exist; offset is still supported but slower and unstable when data changes\n' +
+    '• Use format="markdown" or "csv" for wide results - much more compact than the default JSON\n' +
+    '• NEVER paste user values (emails, order numbers) into SQL literals - use $1, $2 placeholders and the params array\n' +
     '• Respects Row Level Security (RLS) - only authorized data returned\n' +
     '\n' +
     '📝 QUERY EXAMPLES:\n' +
     '• Simple: SELECT * FROM "Klienci" WHERE email LIKE \'%@example.com\'\n' +
+    '• Parameters: SELECT * FROM "Zamowienia" WHERE numer_zamowienia = $1 with params: ["OP1001"]\n' +
+    '• Array parameter: SELECT * FROM "Zamowienia" WHERE numer_zamowienia = ANY($1) with params: [["OP1001", "OP1002"]]\n' +
     '• JOIN: SELECT k.imie, z.numer_zamowienia FROM "Klienci" k JOIN "Zamowienia" z ON k.id = z.id_klienta\n' +
     '• Aggregate: SELECT COUNT(*), AVG(wartosc_calkowita) FROM "Zamowienia" WHERE status = \'completed\'\n' +
-    '• With limit: Add LIMIT 100 to your query (max 1000)\n' +
+    '• With limit: Add LIMIT 100 to your query (capped at the limit parameter, max 1000)\n' +
     '\n' +
     '🔒 SECURITY:\n' +
-    '• ONLY SELECT queries allowed - no data modification\n' +
-    '• Automatically blocks: INSERT, UPDATE, DELETE, DROP, ALTER, TRUNCATE\n' +
+    '• Queries are parsed by the PostgreSQL parser - exactly ONE read-only statement (SELECT, WITH ... SELECT, VALUES)\n' +
+    '• Rejected: INSERT/UPDATE/DELETE/MERGE (also inside WITH), DDL, SELECT ... INTO, FOR UPDATE/SHARE, multiple statements\n' +
+    '• Side-effect functions (pg_sleep, set_config, nextval, dblink, ...) are blocked\n' +
     '• RLS policies enforced - user sees only permitted data\n' +
     '• Default 50 record limit prevents accidental large queries\n' +
     '\n' +
@@ -105,53 +133,82 @@ export const executeSQLLimitedTool = {
     '• CORRECT: SELECT * FROM "Zamowienia"\n' +
     '• Check get_database_schema output for exact table names',
   inputSchema: {
-    type: 'object',
-    properties: {
-      query: {
-        type: 'string',
-        description:
-          'SQL SELECT query to execute. IMPORTANT: Use double quotes for mixed-case table names like "Zamowienia". Example: SELECT * FROM "Klienci" WHERE email = \'test@example.com\'',
-        minLength: 10,
-      },
-      limit: {
-        type: 'number',
-        description:
-          'Maximum number of records to return. Default: 50 (from config). Max: 1000. Use for pagination or limiting large result sets.',
-        minimum: 1,
-        maximum: 1000,
-      },
-      offset: {
-        type: 'number',
-        description: 'Number of records to skip (for pagination). Example: offset=50 with limit=50 returns records 51-100. Default: 0',
-        minimum: 0,
-        default: 0,
-      },
-    },
-    required: ['query'],
+    query: z
+      .string()
+      .min(10)
+      .describe('SQL SELECT query to execute. IMPORTANT: Use double quotes for mixed-case table names like "Zamowienia". Example: SELECT * FROM "Klienci" WHERE email = \'test@example.com\''),
+    limit: z
+      .number()
+      .min(1)
+      .max(1000)
+      .optional()
+      .describe('Maximum number of records to return. Default: 50 (from config). Max: 1000. Use for pagination or limiting large result sets.'),
+    offset: z
+      .number()
+      .min(0)
+      .optional()
+      .default(0)
+      .describe('Number of records to skip (for pagination). Example: offset=50 with limit=50 returns records 51-100. Default: 0. Prefer cursor.'),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Opaque cursor from next_cursor of the previous call. Repeat exactly the same query and params to get the next page. ' +
+        'Requires ORDER BY on result columns; cannot be combined with offset.'
+      ),
+    params: z
+      .array(sqlParamSchema)
+      .max(100)
+      .optional()
+      .describe(
+        'Values for $1, $2, ... placeholders in the query (params[0] is $1). Allowed types: string, number, boolean, null ' +
+        'or an array of those (e.g. for = ANY($1)). Values are typed and escaped by the server - do not quote them. ' +
+        'Example: SELECT * FROM "Klienci" WHERE email = $1 with params ["jan@example.com"]'
+      ),
+    format: z
+      .enum(RESULT_FORMATS)
+      .optional()
+      .default('json')
+      .describe(
+        'How rows are rendered in the text output: "json" (pretty JSON, default), "markdown" (compact table), ' +
+        '"csv" (header + rows, NULL as empty field) or "ndjson" (one JSON object per line). Column order is preserved.'
+      ),
   },
+  outputSchema: sqlQueryResultSchema.shape,
+  requires: ['databaseClient'],
+  scopes: ['database:query'],
+  handler: (args, { databaseClient, bearerToken, signal, reportProgress }) =>
+    handleExecuteSQLLimited(databaseClient, args, bearerToken, { signal, onProgress: reportProgress }),
 };
 
 /**
  * Handler dla narzędzia get_database_schema
  * @param databaseClient - Klient bazy danych
  * @param args - Argumenty narzędzia
+ * @param bearerToken - Token wywołującego (zapytania wykonywane z jego uprawnieniami RLS)
+ * @param options - Sygnał anulowania i raportowanie postępu wywołania MCP
  */
 export async function handleGetDatabaseSchema(
   databaseClient: DatabaseClient,
-  args: unknown
-): Promise<{ content: Array<{ type: string; text: string }> }> {
+  args: unknown,
+  bearerToken?: string,
+  options: RequestOptions = {}
+): Promise<ToolResult> {
   try {
     // Walidacja argumentów
     const params = (args || {}) as {
       include_relations?: boolean;
       include_indexes?: boolean;
       schema?: string;
+      refresh?: boolean;
     };
 
     const includeRelations =
       params.include_relations !== undefined ? params.include_relations : true;
     const includeIndexes = params.include_indexes !== undefined ? params.include_indexes : true;
     const schema = params.schema || 'public';
+    const refresh = params.refresh === true;
 
     // Walidacja schematu
     if (typeof schema !== 'string' || schema.length === 0 || schema.length > 63) {
@@ -162,13 +219,24 @@ export async function handleGetDatabaseSchema(
     const result = await databaseClient.getDatabaseSchema(
       includeRelations,
       includeIndexes,
-      schema
+      schema,
+      refresh,
+      bearerToken,
+      options
     );
 
     // Formatowanie odpowiedzi
     let responseText = `📊 STRUKTURA BAZY DANYCH - SCHEMA: ${schema}\n`;
     responseText += `${'='.repeat(60)}\n\n`;
-    responseText += `Liczba tabel: ${result.total_tables}\n\n`;
+    responseText += `Liczba tabel: ${result.total_tables}\n`;
+
+    if (result.cache) {
+      responseText += result.cache.hit
+        ? `🗄️ Cache: HIT (pobrano: ${result.cache.cached_at}, wygasa: ${result.cache.expires_at})\n`
+        : `🗄️ Cache: MISS (pobrano z bazy danych, ważne do: ${result.cache.expires_at})\n`;
+    }
+
+    responseText += '\n';
 
     if (result.tables.length === 0) {
       responseText += `⚠️ Nie znaleziono tabel w schemacie "${schema}".\n`;
@@ -226,6 +294,8 @@ export async function handleGetDatabaseSchema(
           text: responseText,
         },
       ],
+      structuredContent: { ...result },
+      audit: { rowCount: result.total_tables },
     };
   } catch (error) {
     // Obsługa błędów
@@ -257,6 +327,7 @@ export async function handleGetDatabaseSchema(
           text: `❌ BŁĄD POBIERANIA STRUKTURY BAZY\n\n${errorMessage}`,
         },
       ],
+      isError: true,
     };
   }
 }
@@ -265,18 +336,29 @@ export async function handleGetDatabaseSchema(
  * Handler dla narzędzia execute_sql_limited
  * @param databaseClient - Klient bazy danych
  * @param args - Argumenty narzędzia
+ * @param bearerToken - Token wywołującego (zapytania wykonywane z jego uprawnieniami RLS)
+ * @param options - Sygnał anulowania i raportowanie postępu wywołania MCP
  */
 export async function handleExecuteSQLLimited(
   databaseClient: DatabaseClient,
-  args: unknown
-): Promise<{ content: Array<{ type: string; text: string }> }> {
+  args: unknown,
+  bearerToken?: string,
+  options: RequestOptions = {}
+): Promise<ToolResult> {
   try {
     // Walidacja argumentów
     if (!args || typeof args !== 'object') {
       throw new Error('Nieprawidłowe argumenty narzędzia');
     }
 
-    const params = args as { query?: unknown; limit?: unknown; offset?: unknown };
+    const params = args as {
+      query?: unknown;
+      limit?: unknown;
+      offset?: unknown;
+      params?: unknown;
+      format?: unknown;
+      cursor?: unknown;
+    };
 
     if (typeof params.query !== 'string') {
       throw new Error('Parametr query musi być ciągiem znaków');
@@ -312,8 +394,46 @@ export async function handleExecuteSQLLimited(
       offset = params.offset;
     }
 
+    // Walidacja parametrów zapytania
+    let queryParams: SqlParam[] = [];
+    if (params.params !== undefined) {
+      const parsed = z.array(sqlParamSchema).safeParse(params.params);
+      if (!parsed.success) {
+        throw new Error(
+          'Parametr params musi być tablicą wartości (string, number, boolean, null lub tablica tych typów)'
+        );
+      }
+      queryParams = parsed.data;
+    }
+
+    // Walidacja cursor
+    let cursor: string | undefined;
+    if (params.cursor !== undefined) {
+      if (typeof params.cursor !== 'string' || params.cursor.length === 0) {
+        throw new Error('Parametr cursor musi być niepustym ciągiem znaków');
+      }
+      cursor = params.cursor;
+    }
+
+    // Walidacja format
+    let format: ResultFormat = 'json';
+    if (params.format !== undefined) {
+      if (!RESULT_FORMATS.includes(params.format as ResultFormat)) {
+        throw new Error(`Parametr format musi być jedną z wartości: ${RESULT_FORMATS.join(', ')}`);
+      }
+      format = params.format as ResultFormat;
+    }
+
     // Wykonaj zapytanie
-    const result = await databaseClient.executeSQLWithLimit(query, limit, offset);
+    const { executed_sql: executedSql, ...result } = await databaseClient.executeSQLWithLimit(
+      query,
+      limit,
+      offset,
+      queryParams,
+      cursor,
+      bearerToken,
+      options
+    );
 
     // Formatowanie odpowiedzi
     let responseText = `✅ WYNIKI ZAPYTANIA SQL\n`;
@@ -329,21 +449,31 @@ export async function handleExecuteSQLLimited(
       responseText += `📄 Offset: ${offset}\n`;
     }
 
+    if (cursor) {
+      responseText += `📄 Strona wyznaczona kursorem\n`;
+    }
+
+    responseText += `➡️ Więcej wyników: ${result.has_more ? 'TAK' : 'NIE'}\n`;
+
     responseText += `\n${'-'.repeat(60)}\n\n`;
 
     if (result.count === 0) {
       responseText += `Brak wyników dla tego zapytania.\n`;
     } else {
       // Wyświetl wyniki w formacie tabeli
-      responseText += `WYNIKI:\n\n`;
-      responseText += JSON.stringify(result.data, null, 2);
+      responseText += `WYNIKI (${format}):\n\n`;
+      responseText += formatRows(result.data, format);
       responseText += `\n\n`;
 
-      // Dodaj informacje o paginacji jeśli wyniki były limitowane
-      if (result.limited && result.count === (limit || 50)) {
-        responseText += `\n💡 TIP: Możliwe że jest więcej wyników.\n`;
-        responseText += `Użyj parametru 'offset' aby pobrać kolejne strony:\n`;
-        responseText += `offset: ${offset + result.count}\n`;
+      // Dodaj informacje o paginacji jeśli są kolejne strony
+      if (result.has_more && result.next_cursor) {
+        responseText += `\n💡 TIP: Jest więcej wyników.\n`;
+        responseText += `Powtórz to samo zapytanie z parametrem cursor aby pobrać kolejną stronę:\n`;
+        responseText += `cursor: ${result.next_cursor}\n`;
+      } else if (result.has_more) {
+        responseText += `\n💡 TIP: Jest więcej wyników.\n`;
+        responseText += `Dodaj ORDER BY po kolumnach wyniku (np. ORDER BY data, id) bez OFFSET, aby otrzymać kursor,\n`;
+        responseText += `lub użyj parametru 'offset': ${offset + result.count}\n`;
       }
     }
 
@@ -356,6 +486,8 @@ export async function handleExecuteSQLLimited(
           text: responseText,
         },
       ],
+      structuredContent: { ...result },
+      audit: { sql: executedSql, rowCount: result.count },
     };
   } catch (error) {
     // Obsługa błędów
@@ -385,6 +517,7 @@ export async function handleExecuteSQLLimited(
           text: `❌ BŁĄD WYKONANIA ZAPYTANIA SQL\n\n${errorMessage}`,
         },
       ],
+      isError: true,
     };
   }
 }
@@ -2,14 +2,20 @@
  * Narzędzie MCP do weryfikacji zamówień
  */
 
+import { z } from 'zod';
+
 import type { ApiClient } from '../services/apiClient.js';
-import { ApiError } from '../types/index.js';
+import type { RequestOptions } from '../types/index.js';
+import { ApiError, CircuitOpenError } from '../types/index.js';
+import type { ToolDefinition, ToolResult } from './registry.js';
+import { orderVerificationResponseSchema } from './schemas.js';
 
 /**
- * Schemat narzędzia verify_order
+ * Definicja narzędzia verify_order
  */
-export const verifyOrderTool = {
+export const verifyOrderTool: ToolDefinition = {
   name: 'verify_order',
+  title: 'Verify Order',
   description:
     'Verifies if an order exists in the ERP system and retrieves detailed order information. ' +
     'Returns order status, total value, customer details, and order metadata. ' +
@@ -35,18 +41,17 @@ export const verifyOrderTool = {
     '• Order numbers are case-sensitive\n' +
     '• Authentication token determines data visibility (RLS applies)',
   inputSchema: {
-    type: 'object',
-    properties: {
-      numer_zamowienia: {
-        type: 'string',
-        description:
-          'Order number to verify (e.g., OP1001, OP1002). Required parameter. Must be exact match.',
-        minLength: 1,
-        maxLength: 50,
-      },
-    },
-    required: ['numer_zamowienia'],
+    numer_zamowienia: z
+      .string()
+      .min(1)
+      .max(50)
+      .describe('Order number to verify (e.g., OP1001, OP1002). Required parameter. Must be exact match.'),
   },
+  outputSchema: orderVerificationResponseSchema.shape,
+  requires: ['apiClient'],
+  scopes: ['orders:read'],
+  handler: (args, { apiClient, bearerToken, signal, reportProgress }) =>
+    handleVerifyOrder(apiClient, args, bearerToken, { signal, onProgress: reportProgress }),
 };
 
 /**
@@ -54,12 +59,14 @@ export const verifyOrderTool = {
  * @param apiClient - Klient API
  * @param args - Argumenty narzędzia
  * @param bearerToken - Token autoryzacyjny (opcjonalny, przekazywany do Supabase)
+ * @param options - Sygnał anulowania i raportowanie postępu wywołania MCP
  */
 export async function handleVerifyOrder(
   apiClient: ApiClient,
   args: unknown,
-  bearerToken?: string
-): Promise<{ content: Array<{ type: string; text: string }> }> {
+  bearerToken?: string,
+  options: RequestOptions = {}
+): Promise<ToolResult> {
   try {
     // Walidacja argumentów
     if (!args || typeof args !== 'object') {
@@ -73,7 +80,7 @@ export async function handleVerifyOrder(
     }
 
     // Wywołanie API z przekazaniem tokena (jeśli podany)
-    const result = await apiClient.verifyOrder(numer_zamowienia, bearerToken);
+    const result = await apiClient.verifyOrder(numer_zamowienia, bearerToken, options);
 
     // Formatowanie odpowiedzi
     let responseText: string;
@@ -112,8 +119,30 @@ Proszę sprawdzić poprawność numeru zamówienia i spróbować ponownie.`;
           text: responseText,
         },
       ],
+      structuredContent: { ...result },
+      audit: { rowCount: result.zamowienieIstnieje ? 1 : 0 },
     };
   } catch (error) {
+    // Circuit breaker otwarty - żądanie nie zostało wysłane
+    if (error instanceof CircuitOpenError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              `⛔ ERP API TEMPORARILY UNAVAILABLE\n\n` +
+              `API ERP zwracało błędy w kolejnych żądaniach - weryfikacja jest wstrzymana. ` +
+              `Spróbuj ponownie za ${error.retryAfter} s (retry_after: ${error.retryAfter}).`,
+          },
+        ],
+        structuredContent: {
+          error: 'erp_api_unavailable',
+          retry_after: error.retryAfter,
+        },
+        isError: true,
+      };
+    }
+
     // Obsługa błędów
     let errorMessage: string;
 
@@ -141,6 +170,7 @@ Proszę sprawdzić poprawność numeru zamówienia i spróbować ponownie.`;
           text: `❌ BŁĄD WERYFIKACJI ZAMÓWIENIA\n\n${errorMessage}`,
         },
       ],
+      isError: true,
     };
   }
 }
@@ -0,0 +1,434 @@
+/**
+ * Rejestr narzędzi MCP
+ * Jedno miejsce definicji narzędzi montowane przez wszystkie transporty (stdio, SSE, Streamable HTTP)
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ZodRawShape } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SpanStatusCode } from '@opentelemetry/api';
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerRequest, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+import type { AuditOutcome, AuthClaims, ProgressReporter } from '../types/index.js';
+import type { ApiClient } from '../services/apiClient.js';
+import type { DatabaseClient } from '../services/databaseClient.js';
+import type { AuditLogger } from '../services/auditLog.js';
+import type { OrderWatcher } from '../services/orderWatcher.js';
+import { authClaimsFrom } from '../services/jwtVerifier.js';
+import { currentCorrelationId, withCorrelationId } from '../helpers/logger.js';
+import { recordToolCall } from '../services/metrics.js';
+import { withSpan } from '../services/tracing.js';
+import {
+  rateLimitKey,
+  tokenFingerprint,
+  type RateLimitDecision,
+  type RateLimiter,
+  type RateLimitKind,
+} from '../services/rateLimiter.js';
+import { verifyOrderTool } from './orderVerification.js';
+import { verifyOrdersTool } from './batchOrderVerification.js';
+import { getDatabaseSchemaTool, executeSQLLimitedTool } from './databaseTools.js';
+import { findCustomerTool } from './customerTools.js';
+import { getAuditLogTool } from './auditTools.js';
+
+/**
+ * Klienci dostępni dla narzędzi
+ */
+export interface ToolClients {
+  apiClient: ApiClient;
+  databaseClient: DatabaseClient;
+  auditLog: AuditLogger;
+}
+
+/**
+ * Nazwa klienta wymaganego przez narzędzie
+ */
+export type ToolClient = keyof ToolClients;
+
+/**
+ * Kontekst przekazywany przez entrypoint przy montowaniu narzędzi
+ */
+export interface ToolContext extends Partial<ToolClients> {
+  bearerToken?: string;
+  /** Wymagaj zakresów (scope) narzędzia w tokenie wywołującego (tryb OAuth) */
+  requireScopes?: boolean;
+  /** Claimy zweryfikowanego tokena wywołującego (tylko przy włączonej weryfikacji JWT) */
+  auth?: AuthClaims;
+  /** Limiter wywołań współdzielony przez wszystkie sesje */
+  rateLimiter?: RateLimiter;
+  /** Adres IP klienta (klucz limitu, gdy token nie jest zweryfikowany) */
+  clientIp?: string;
+  /** Obserwowanie zamówień dla subskrypcji zasobów (brak - subskrypcje wyłączone) */
+  orderWatcher?: OrderWatcher;
+}
+
+/**
+ * Kontekst widziany przez handler - wymagani klienci są zawsze obecni
+ */
+export type ToolHandlerContext = ToolContext &
+  ToolClients & {
+    /** Sygnał anulowania wywołania przez klienta (notifications/cancelled) */
+    signal?: AbortSignal;
+    /** Wysyła notifications/progress (tylko gdy klient podał progressToken) */
+    reportProgress?: ProgressReporter;
+  };
+
+/**
+ * Wynik zwracany przez handler narzędzia
+ * structuredContent jest wymagany przy sukcesie, jeśli narzędzie deklaruje outputSchema
+ */
+export interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  /** Szczegóły dla audytu (usuwane przed wysłaniem odpowiedzi do klienta) */
+  audit?: ToolAuditDetails;
+}
+
+/**
+ * Szczegóły wykonania zgłaszane przez handler do audytu
+ */
+export interface ToolAuditDetails {
+  /** SQL wykonany po nałożeniu LIMIT/OFFSET */
+  sql?: string;
+  /** Liczba zwróconych wierszy / rekordów */
+  rowCount?: number;
+}
+
+/**
+ * Definicja narzędzia MCP
+ */
+export interface ToolDefinition {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: ZodRawShape;
+  outputSchema?: ZodRawShape;
+  requires: ToolClient[];
+  /** Zakresy OAuth wymagane do wywołania narzędzia */
+  scopes: string[];
+  handler: (args: unknown, context: ToolHandlerContext) => Promise<ToolResult>;
+}
+
+/**
+ * Funkcja logowania przekazywana przez entrypoint
+ */
+export type ToolLogger = (level: string, message: string, ...args: unknown[]) => void;
+
+/**
+ * Wszystkie narzędzia serwera
+ * Dodanie narzędzia = dopisanie jego definicji do tej listy
+ */
+export const toolDefinitions: ToolDefinition[] = [
+  verifyOrderTool,
+  verifyOrdersTool,
+  getDatabaseSchemaTool,
+  executeSQLLimitedTool,
+  findCustomerTool,
+  getAuditLogTool,
+];
+
+/**
+ * Opisy limitów w komunikacie o przekroczeniu
+ */
+const RATE_LIMIT_DESCRIPTIONS: Record<RateLimitKind, string> = {
+  rate: 'wywołań na minutę',
+  tool_rate: 'wywołań tego narzędzia (zasobu, promptu) na minutę',
+  daily_quota: 'wywołań dziennie',
+  tool_daily_quota: 'wywołań tego narzędzia (zasobu, promptu) dziennie',
+};
+
+/**
+ * Wszystkie zakresy OAuth używane przez narzędzia (scopes_supported w metadanych zasobu)
+ */
+export const toolScopes: string[] = [...new Set(toolDefinitions.flatMap((tool) => tool.scopes))];
+
+/**
+ * Rejestruje narzędzia z rejestru w serwerze MCP
+ * Narzędzia, których wymagani klienci nie są dostępni w kontekście, są pomijane
+ * @param server - Serwer MCP
+ * @param context - Klienci i token przekazywane do handlerów
+ * @param log - Funkcja logowania (opcjonalna)
+ */
+export function registerTools(
+  server: McpServer,
+  context: ToolContext,
+  log?: ToolLogger
+): void {
+  for (const tool of toolDefinitions) {
+    const missing = tool.requires.filter((client) => !context[client]);
+    if (missing.length > 0) {
+      log?.('warn', `Narzędzie ${tool.name} pominięte - brak: ${missing.join(', ')}`);
+      continue;
+    }
+
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+      },
+      // Wywołanie przejmuje ID korelacji żądania HTTP; w stdio każde wywołanie dostaje nowe
+      (args, extra) =>
+        withCorrelationId(currentCorrelationId() ?? randomUUID(), () => callTool(tool, args, context, extra, log))
+    );
+  }
+}
+
+/**
+ * Obsługuje wywołanie narzędzia w spanie śladu i zapisuje je w audycie
+ */
+async function callTool(
+  tool: ToolDefinition,
+  args: unknown,
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  log?: ToolLogger
+): Promise<ToolResult> {
+  return withSpan(`tool ${tool.name}`, { attributes: { 'mcp.tool.name': tool.name } }, async (span) => {
+    log?.('info', `Wywołanie ${tool.name} z argumentami:`, args);
+
+    const startedAt = Date.now();
+    const { result, outcome } = await invokeTool(tool, args, context, extra, log);
+    recordToolCall(tool.name, outcome, Date.now() - startedAt);
+
+    await recordAudit(context, extra, {
+      name: tool.name,
+      arguments: (args as Record<string, unknown> | undefined) ?? null,
+      startedAt,
+      outcome,
+      error: result.isError ? result.content.map((item) => item.text).join('\n') : null,
+      sql: result.audit?.sql,
+      rowCount: result.audit?.rowCount,
+    });
+
+    span.setAttribute('mcp.tool.outcome', outcome);
+    if (result.audit?.rowCount !== undefined) {
+      span.setAttribute('mcp.tool.row_count', result.audit.rowCount);
+    }
+    if (result.isError) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+
+    const { audit: _audit, ...response } = result;
+    return response;
+  });
+}
+
+/**
+ * Wykonuje narzędzie po sprawdzeniu zakresów OAuth i limitów wywołań
+ */
+async function invokeTool(
+  tool: ToolDefinition,
+  args: unknown,
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  log?: ToolLogger
+): Promise<{ result: ToolResult; outcome: AuditOutcome }> {
+  const missing = missingScopes(tool.scopes, context, extra);
+  if (missing.length > 0) {
+    log?.('warn', `Odmowa wywołania ${tool.name} - brak zakresów: ${missing.join(', ')}`);
+    return {
+      outcome: 'denied',
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: `❌ BRAK UPRAWNIEŃ\n\nToken nie zawiera zakresów wymaganych przez ${tool.name}: ${missing.join(', ')}`,
+          },
+        ],
+        isError: true,
+      },
+    };
+  }
+
+  const decision = consumeRateLimit(tool.name, context, extra, log);
+  if (!decision.allowed) {
+    return {
+      outcome: 'rate_limited',
+      result: {
+        content: [{ type: 'text', text: `⏳ PRZEKROCZONO LIMIT WYWOŁAŃ\n\n${rateLimitMessage(decision)}` }],
+        structuredContent: {
+          error: 'rate_limited',
+          limit_type: decision.kind,
+          limit: decision.limit,
+          retry_after: decision.retryAfter,
+        },
+        isError: true,
+      },
+    };
+  }
+
+  try {
+    const result = await tool.handler(args, {
+      ...requestContext(context, extra),
+      signal: extra.signal,
+      reportProgress: progressReporter(extra),
+    });
+
+    // Odpowiedź na anulowane żądanie nie jest wysyłana (SDK), ale wywołanie trafia do audytu jako anulowane
+    if (extra.signal.aborted) {
+      log?.('info', `Wywołanie ${tool.name} anulowane przez klienta`);
+      return {
+        outcome: 'cancelled',
+        result: {
+          content: [{ type: 'text', text: `⏹ WYWOŁANIE ANULOWANE\n\nKlient anulował wywołanie ${tool.name} - przerwano trwające żądania.` }],
+          structuredContent: { error: 'cancelled' },
+          isError: true,
+        },
+      };
+    }
+
+    return { result, outcome: result.isError ? 'error' : 'success' };
+  } catch (error) {
+    // Odpowiada obsłudze wyjątku przez McpServer, ale wywołanie trafia do audytu
+    return {
+      outcome: 'error',
+      result: {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      },
+    };
+  }
+}
+
+/**
+ * Wywołanie zapisywane w audycie - narzędzie, odczyt zasobu lub prompt
+ */
+export interface AuditedCall {
+  /** Nazwa w audycie (pole tool), np. verify_order, resource/order, prompt/customer_summary */
+  name: string;
+  arguments: Record<string, unknown> | null;
+  startedAt: number;
+  outcome: AuditOutcome;
+  error?: string | null;
+  sql?: string;
+  rowCount?: number;
+}
+
+/**
+ * Zapisuje wywołanie w audycie (bez audytu w kontekście - nic nie robi)
+ */
+export async function recordAudit(
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  call: AuditedCall
+): Promise<void> {
+  if (!context.auditLog) {
+    return;
+  }
+
+  const claims = authClaimsFrom(extra.authInfo);
+  const token = extra.authInfo?.token || context.bearerToken;
+
+  await context.auditLog.record({
+    timestamp: new Date(call.startedAt).toISOString(),
+    correlation_id: currentCorrelationId() ?? null,
+    session_id: extra.sessionId || null,
+    user_id: claims?.userId || null,
+    role: claims?.role || null,
+    email: claims?.email || null,
+    token_key: token ? tokenFingerprint(token) : null,
+    client_ip: context.clientIp || null,
+    tool: call.name,
+    arguments: call.arguments,
+    sql: call.sql || null,
+    row_count: call.rowCount ?? null,
+    duration_ms: Date.now() - call.startedAt,
+    outcome: call.outcome,
+    error: call.error ? call.error.slice(0, 1000) : null,
+  });
+}
+
+/**
+ * Zużywa jedno wywołanie z limitów wywołującego (bez limitera w kontekście - zawsze dozwolone)
+ * @param name - Nazwa w limitach per narzędzie (RATE_LIMIT_TOOLS, DAILY_QUOTA_TOOLS), jak w audycie
+ */
+export function consumeRateLimit(
+  name: string,
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  log?: ToolLogger
+): RateLimitDecision {
+  if (!context.rateLimiter) {
+    return { allowed: true };
+  }
+
+  const key = rateLimitKey({
+    token: extra.authInfo?.token || context.bearerToken,
+    verified: Boolean(authClaimsFrom(extra.authInfo) ?? context.auth),
+    sessionId: extra.sessionId,
+    ip: context.clientIp,
+  });
+  const decision = context.rateLimiter.consume(key, name);
+
+  if (!decision.allowed) {
+    log?.('warn', `Limit ${decision.kind} przekroczony dla ${name} (retry_after: ${decision.retryAfter} s)`);
+  }
+  return decision;
+}
+
+/**
+ * Komunikat o przekroczonym limicie
+ */
+export function rateLimitMessage(decision: Extract<RateLimitDecision, { allowed: false }>): string {
+  return (
+    `Limit: ${decision.limit} ${RATE_LIMIT_DESCRIPTIONS[decision.kind]}. ` +
+    `Spróbuj ponownie za ${decision.retryAfter} s (retry_after: ${decision.retryAfter}).`
+  );
+}
+
+/**
+ * Raportowanie postępu przez notifications/progress powiązane z żądaniem
+ * Klient bez progressToken w _meta nie chce powiadomień; postęp musi rosnąć, więc wartości niższe są pomijane
+ */
+function progressReporter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ProgressReporter | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let last = -Infinity;
+  return (progress, total, message) => {
+    if (progress <= last || extra.signal.aborted) {
+      return;
+    }
+    last = progress;
+    extra
+      .sendNotification({ method: 'notifications/progress', params: { progressToken, progress, total, message } })
+      .catch(() => undefined);
+  };
+}
+
+/**
+ * Zakresy, których brakuje w tokenie wywołującego (sprawdzane tylko w trybie OAuth)
+ * @param scopes - Zakresy wymagane przez narzędzie, zasób lub prompt
+ */
+export function missingScopes(
+  scopes: string[],
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): string[] {
+  if (!context.requireScopes) {
+    return [];
+  }
+  const granted = extra.authInfo?.scopes || [];
+  return scopes.filter((scope) => !granted.includes(scope));
+}
+
+/**
+ * Kontekst żądania - token zweryfikowany dla tego żądania ma pierwszeństwo przed tokenem z inicjalizacji sesji
+ */
+export function requestContext(
+  context: ToolContext,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ToolHandlerContext {
+  return (
+    extra.authInfo ? { ...context, bearerToken: extra.authInfo.token, auth: authClaimsFrom(extra.authInfo) } : context
+  ) as ToolHandlerContext;
+}
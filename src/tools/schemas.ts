@@ -0,0 +1,152 @@
+/**
+ * Schematy zod wyników narzędzi MCP (outputSchema / structuredContent)
+ * Odwzorowują typy z types/index.ts - kompilator pilnuje zgodności przez `satisfies`
+ */
+
+import { z } from 'zod';
+
+import type {
+  Customer,
+  OrderDetails,
+  OrderVerificationResponse,
+  BatchOrderVerificationResponse,
+  CustomerSearchResponse,
+  ColumnInfo,
+  ForeignKeyInfo,
+  IndexInfo,
+  TableInfo,
+  SchemaCacheInfo,
+  DatabaseSchemaResponse,
+  SqlQueryResult,
+  AuditEntry,
+} from '../types/index.js';
+
+export const customerSchema = z.object({
+  imie: z.string(),
+  nazwisko: z.string(),
+  email: z.string(),
+}) satisfies z.ZodType<Customer>;
+
+export const orderDetailsSchema = z.object({
+  id_zamowienia: z.string(),
+  numer_zamowienia: z.string(),
+  status: z.string(),
+  wartosc_calkowita: z.number(),
+  klient: customerSchema,
+}) satisfies z.ZodType<OrderDetails>;
+
+export const orderVerificationResponseSchema = z.object({
+  zamowienieIstnieje: z.boolean(),
+  daneZamowienia: orderDetailsSchema.nullable(),
+}) satisfies z.ZodType<OrderVerificationResponse>;
+
+export const batchOrderVerificationResponseSchema = z.object({
+  orders: z.array(
+    z.object({
+      numer_zamowienia: z.string(),
+      result: z.enum(['found', 'not_found', 'error']),
+      daneZamowienia: orderDetailsSchema.nullable(),
+      error: z.string().nullable(),
+      error_code: z.number().nullable(),
+    })
+  ),
+  summary: z.object({
+    total: z.number(),
+    found: z.number(),
+    not_found: z.number(),
+    errors: z.number(),
+    total_value: z.number(),
+    by_status: z.array(
+      z.object({
+        status: z.string(),
+        orders: z.number(),
+        total_value: z.number(),
+      })
+    ),
+    distinct_customers: z.array(customerSchema.extend({ orders: z.number() })),
+  }),
+}) satisfies z.ZodType<BatchOrderVerificationResponse>;
+
+export const customerSearchResponseSchema = z.object({
+  customers: z.array(
+    customerSchema.extend({
+      id: z.union([z.string(), z.number()]),
+      telefon: z.string().nullable(),
+      orders: z.number(),
+      score: z.number(),
+      matched_fields: z.array(z.enum(['email', 'imie', 'nazwisko', 'telefon'])),
+    })
+  ),
+  count: z.number(),
+  truncated: z.boolean(),
+}) satisfies z.ZodType<CustomerSearchResponse>;
+
+export const columnInfoSchema = z.object({
+  column_name: z.string(),
+  data_type: z.string(),
+  is_nullable: z.string(),
+  column_default: z.string().nullable(),
+  character_maximum_length: z.number().nullable(),
+}) satisfies z.ZodType<ColumnInfo>;
+
+export const foreignKeyInfoSchema = z.object({
+  constraint_name: z.string(),
+  table_name: z.string(),
+  column_name: z.string(),
+  foreign_table_name: z.string(),
+  foreign_column_name: z.string(),
+}) satisfies z.ZodType<ForeignKeyInfo>;
+
+export const indexInfoSchema = z.object({
+  index_name: z.string(),
+  table_name: z.string(),
+  column_name: z.string(),
+  is_unique: z.boolean(),
+  is_primary: z.boolean(),
+}) satisfies z.ZodType<IndexInfo>;
+
+export const tableInfoSchema = z.object({
+  table_name: z.string(),
+  table_schema: z.string(),
+  columns: z.array(columnInfoSchema),
+  foreign_keys: z.array(foreignKeyInfoSchema).optional(),
+  indexes: z.array(indexInfoSchema).optional(),
+}) satisfies z.ZodType<TableInfo>;
+
+export const schemaCacheInfoSchema = z.object({
+  hit: z.boolean(),
+  cached_at: z.string(),
+  expires_at: z.string(),
+}) satisfies z.ZodType<SchemaCacheInfo>;
+
+export const databaseSchemaResponseSchema = z.object({
+  tables: z.array(tableInfoSchema),
+  total_tables: z.number(),
+  cache: schemaCacheInfoSchema.optional(),
+}) satisfies z.ZodType<DatabaseSchemaResponse>;
+
+export const sqlQueryResultSchema = z.object({
+  data: z.array(z.record(z.unknown())),
+  count: z.number(),
+  limited: z.boolean(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+}) satisfies z.ZodType<SqlQueryResult>;
+
+export const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  correlation_id: z.string().nullable(),
+  session_id: z.string().nullable(),
+  user_id: z.string().nullable(),
+  role: z.string().nullable(),
+  email: z.string().nullable(),
+  token_key: z.string().nullable(),
+  client_ip: z.string().nullable(),
+  tool: z.string(),
+  arguments: z.record(z.unknown()).nullable(),
+  sql: z.string().nullable(),
+  row_count: z.number().nullable(),
+  duration_ms: z.number(),
+  outcome: z.enum(['success', 'error', 'denied', 'rate_limited', 'cancelled']),
+  error: z.string().nullable(),
+}) satisfies z.ZodType<AuditEntry>;
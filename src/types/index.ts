@@ -37,15 +37,190 @@ export interface OrderVerificationResponse {
   daneZamowienia: OrderDetails | null;
 }
 
+/**
+ * Wynik weryfikacji pojedynczego zamówienia w partii
+ */
+export interface BatchOrderVerificationItem {
+  numer_zamowienia: string;
+  result: 'found' | 'not_found' | 'error';
+  daneZamowienia: OrderDetails | null;
+  error: string | null;
+  error_code: number | null;
+}
+
+/**
+ * Podsumowanie wartości zamówień o danym statusie
+ */
+export interface OrderStatusTotal {
+  status: string;
+  orders: number;
+  total_value: number;
+}
+
+/**
+ * Podsumowanie partii weryfikowanych zamówień
+ */
+export interface BatchOrderVerificationSummary {
+  total: number;
+  found: number;
+  not_found: number;
+  errors: number;
+  total_value: number;
+  by_status: OrderStatusTotal[];
+  distinct_customers: Array<Customer & { orders: number }>;
+}
+
+/**
+ * Odpowiedź narzędzia verify_orders
+ */
+export interface BatchOrderVerificationResponse {
+  orders: BatchOrderVerificationItem[];
+  summary: BatchOrderVerificationSummary;
+}
+
+/**
+ * Pole tabeli "Klienci" przeszukiwane przez find_customer
+ */
+export type CustomerSearchField = 'email' | 'imie' | 'nazwisko' | 'telefon';
+
+/**
+ * Klient znaleziony przez find_customer
+ */
+export interface CustomerMatch extends Customer {
+  id: string | number;
+  telefon: string | null;
+  /** Liczba zamówień klienta */
+  orders: number;
+  /** Trafność dopasowania (0-1) */
+  score: number;
+  matched_fields: CustomerSearchField[];
+}
+
+/**
+ * Odpowiedź narzędzia find_customer
+ */
+export interface CustomerSearchResponse {
+  customers: CustomerMatch[];
+  count: number;
+  /** Kandydatów było więcej niż przeszukano - zawężenie zapytania może dać lepsze wyniki */
+  truncated: boolean;
+}
+
 /**
  * Konfiguracja aplikacji
  */
+/**
+ * Claimy zweryfikowanego tokena JWT wywołującego
+ */
+export interface AuthClaims {
+  userId: string;
+  role: string;
+  email: string | null;
+  /** Czas wygaśnięcia tokena (sekundy od epoki) */
+  expiresAt: number;
+}
+
+/**
+ * Wynik wywołania narzędzia w audycie
+ */
+export type AuditOutcome = 'success' | 'error' | 'denied' | 'rate_limited' | 'cancelled';
+
+/**
+ * Wpis audytu wywołania narzędzia
+ */
+export interface AuditEntry {
+  timestamp: string;
+  /** ID korelacji żądania (X-Request-Id) - łączy wpis z logami */
+  correlation_id: string | null;
+  session_id: string | null;
+  user_id: string | null;
+  role: string | null;
+  email: string | null;
+  /** Skrót tokena wywołującego (nigdy sam token) */
+  token_key: string | null;
+  client_ip: string | null;
+  tool: string;
+  arguments: Record<string, unknown> | null;
+  /** SQL wykonany po nałożeniu LIMIT/OFFSET i podstawieniu parametrów */
+  sql: string | null;
+  row_count: number | null;
+  duration_ms: number;
+  outcome: AuditOutcome;
+  error: string | null;
+}
+
+/**
+ * Filtry przeszukiwania audytu
+ */
+export interface AuditQuery {
+  tool?: string;
+  user_id?: string;
+  session_id?: string;
+  outcome?: AuditOutcome;
+  /** Początek zakresu (ISO 8601, włącznie) */
+  since?: string;
+  /** Koniec zakresu (ISO 8601, wyłącznie) */
+  until?: string;
+  limit?: number;
+}
+
+export type AuditSinkType = 'file' | 'memory' | 'none';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'json' | 'pretty';
+
+export type TracingExporterType = 'otlp' | 'console' | 'file' | 'none';
+
+export type EventStoreType = 'memory' | 'file' | 'none';
+
 export interface AppConfig {
   supabaseProjectUrl: string;
   supabaseBearerToken: string;
   defaultQueryLimit?: number;
   apiTimeout: number;
-  logLevel: string;
+  verifyConcurrency: number;
+  orderWatchInterval: number;
+  orderWatchMaxSubscriptions: number;
+  apiRetryMaxAttempts: number;
+  apiRetryBaseDelay: number;
+  apiRetryMaxDelay: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetTimeout: number;
+  schemaCacheTtl: number;
+  databaseTokenFallback: boolean;
+  eventStore: EventStoreType;
+  eventStoreDir: string;
+  eventStoreTtl: number;
+  eventStoreMaxEvents: number;
+  sessionIdleTimeout: number;
+  sessionMaxLifetime: number;
+  maxSessions: number;
+  maxSessionsPerToken: number;
+  authJwtSecret?: string;
+  authJwksFile?: string;
+  authJwksUrl?: string;
+  authAudience: string[];
+  authIssuer?: string;
+  authAllowedRoles: string[];
+  oauthResourceUrl?: string;
+  rateLimitPerMinute: number;
+  rateLimitTools: Record<string, number>;
+  dailyQuota: number;
+  dailyQuotaTools: Record<string, number>;
+  trustProxy: number;
+  auditLog: AuditSinkType;
+  auditLogFile: string;
+  auditRedactArgs: string[];
+  auditAdminRoles: string[];
+  auditAdminUsers: string[];
+  metricsToken?: string;
+  promptsDir?: string;
+  tracingExporter: TracingExporterType;
+  tracingFile: string;
+  tracingServiceName: string;
+  logLevel: LogLevel;
+  logFormat: LogFormat;
   nodeEnv: string;
 }
 
@@ -56,13 +231,57 @@ export class ApiError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
-    public details?: unknown
+    public details?: unknown,
+    /** Sekundy do ponownej próby wskazane przez API (nagłówek Retry-After) */
+    public retryAfter?: number
   ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
+/**
+ * Błąd zwracany bez wysyłania żądania, gdy circuit breaker API ERP jest otwarty
+ */
+export class CircuitOpenError extends ApiError {
+  constructor(retryAfter: number) {
+    super(`ERP API temporarily unavailable - circuit breaker open, retry in ${retryAfter} s`, 503, undefined, retryAfter);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Błąd przerwanego żądania - klient MCP anulował wywołanie (notifications/cancelled)
+ */
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super('Request cancelled by the client', 499);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Raportowanie postępu długiej operacji (notifications/progress)
+ * @param progress - Postęp (rośnie z każdym wywołaniem)
+ * @param total - Łączna liczba kroków, jeśli znana
+ * @param message - Opis bieżącego kroku
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Opcje wywołania klienta API lub bazy danych w ramach żądania MCP
+ */
+export interface RequestOptions {
+  /** Sygnał anulowania żądania MCP - przerywa trwające żądania HTTP i RPC */
+  signal?: AbortSignal;
+  onProgress?: ProgressReporter;
+}
+
+/**
+ * Stan circuit breakera
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
 /**
  * Typ wyniku operacji
  */
@@ -70,6 +289,34 @@ export type Result<T, E = Error> =
   | { success: true; data: T }
   | { success: false; error: E };
 
+/**
+ * Wartość skalarna parametru zapytania SQL
+ */
+export type SqlScalar = string | number | boolean | null;
+
+/**
+ * Parametr zapytania SQL ($1, $2, ...) - wartość skalarna lub tablica (np. dla = ANY($1))
+ */
+export type SqlParam = SqlScalar | SqlScalar[];
+
+/**
+ * Wynik zapytania execute_sql_limited
+ */
+export interface SqlQueryResult {
+  data: Record<string, unknown>[];
+  count: number;
+  limited: boolean;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+/**
+ * Wynik zapytania wraz z faktycznie wykonanym SQL (dla audytu)
+ */
+export interface ExecutedSqlQueryResult extends SqlQueryResult {
+  executed_sql: string;
+}
+
 /**
  * Informacje o kolumnie w tabeli
  */
@@ -114,10 +361,20 @@ export interface TableInfo {
   indexes?: IndexInfo[];
 }
 
+/**
+ * Informacje o użyciu cache struktury bazy danych
+ */
+export interface SchemaCacheInfo {
+  hit: boolean;
+  cached_at: string;
+  expires_at: string;
+}
+
 /**
  * Odpowiedź ze strukturą bazy danych
  */
 export interface DatabaseSchemaResponse {
   tables: TableInfo[];
   total_tables: number;
+  cache?: SchemaCacheInfo;
 }
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { JsonlAuditSink } from '../src/services/auditLog.js';
+import type { AuditEntry } from '../src/types/index.js';
+
+function entry(index: number, tool: string): AuditEntry {
+  return {
+    timestamp: new Date(Date.UTC(2026, 2, 10, 12, 0, index)).toISOString(),
+    correlation_id: null,
+    session_id: null,
+    user_id: `użytkownik-${index}`,
+    role: 'authenticated',
+    email: null,
+    token_key: null,
+    client_ip: null,
+    tool,
+    arguments: { numer_zamowienia: `OP${index}` },
+    sql: null,
+    row_count: null,
+    duration_ms: 1,
+    outcome: 'success',
+    error: null,
+  };
+}
+
+describe('JsonlAuditSink', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    filePath = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('zwraca najnowsze pasujące wpisy z pliku większego niż blok odczytu', async () => {
+    // ~2000 wpisów po ~300 bajtów - kilka bloków po 64 KiB, linie przecinają granice bloków
+    const lines = Array.from({ length: 2000 }, (_, index) =>
+      JSON.stringify(entry(index, index % 2 === 0 ? 'verify_order' : 'execute_sql_limited'))
+    );
+    await fs.writeFile(filePath, `${lines.join('\n')}\n{"przerwany zapis\n`, 'utf8');
+
+    const result = await new JsonlAuditSink(filePath).query({ tool: 'verify_order', limit: 3 });
+
+    expect(result.map((item) => item.user_id)).toEqual(['użytkownik-1998', 'użytkownik-1996', 'użytkownik-1994']);
+  });
+
+  it('czyta najstarszy wpis i zwraca pustą listę dla brakującego pliku', async () => {
+    const sink = new JsonlAuditSink(filePath);
+    expect(await sink.query({})).toEqual([]);
+
+    await sink.append(entry(1, 'verify_order'));
+    await sink.append(entry(2, 'verify_order'));
+
+    expect((await sink.query({ limit: 10 })).map((item) => item.user_id)).toEqual(['użytkownik-2', 'użytkownik-1']);
+  });
+});
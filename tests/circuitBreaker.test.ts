@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { CircuitBreaker } from '../src/helpers/circuitBreaker.js';
+import type { CircuitDecision } from '../src/helpers/circuitBreaker.js';
+
+/**
+ * Decyzja dopuszczająca żądanie (test kończy się błędem, jeśli żądanie zostało odrzucone)
+ */
+function acquireAllowed(breaker: CircuitBreaker): Extract<CircuitDecision, { allowed: true }> {
+  const decision = breaker.acquire();
+  if (!decision.allowed) {
+    throw new Error(`Request rejected (retry after ${decision.retryAfter} s)`);
+  }
+  return decision;
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('otwiera obwód po serii kolejnych błędów i odrzuca żądania', () => {
+    const breaker = new CircuitBreaker(2, 10_000);
+
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+    expect(breaker.stats().state).toBe('closed');
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+
+    expect(breaker.stats().state).toBe('open');
+    expect(breaker.acquire()).toEqual({ allowed: false, retryAfter: 10 });
+    expect(breaker.stats().rejected_total).toBe(1);
+  });
+
+  it('sukces zeruje licznik kolejnych błędów', () => {
+    const breaker = new CircuitBreaker(2, 10_000);
+
+    breaker.recordFailure(false);
+    breaker.recordSuccess(false);
+    breaker.recordFailure(false);
+
+    expect(breaker.stats()).toMatchObject({ state: 'closed', consecutive_failures: 1 });
+  });
+
+  it('przepuszcza jedno żądanie próbne po czasie i zamyka obwód po jego sukcesie', () => {
+    const states: string[] = [];
+    const breaker = new CircuitBreaker(1, 10_000, (state) => states.push(state));
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+
+    jest.advanceTimersByTime(10_000);
+    const trial = acquireAllowed(breaker);
+    expect(trial.trial).toBe(true);
+    expect(breaker.acquire().allowed).toBe(false);
+
+    breaker.recordSuccess(trial.trial);
+    expect(states).toEqual(['open', 'half_open', 'closed']);
+    expect(acquireAllowed(breaker).trial).toBe(false);
+  });
+
+  it('nieudane żądanie próbne ponownie otwiera obwód', () => {
+    const breaker = new CircuitBreaker(1, 10_000);
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+
+    jest.advanceTimersByTime(10_000);
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+
+    expect(breaker.stats()).toMatchObject({ state: 'open', opened_total: 2, retry_after: 10 });
+  });
+
+  it('ignoruje spóźniony sukces żądania wysłanego przed otwarciem obwodu', () => {
+    const breaker = new CircuitBreaker(1, 10_000);
+    const late = acquireAllowed(breaker);
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+    expect(breaker.stats().state).toBe('open');
+
+    breaker.recordSuccess(late.trial);
+    expect(breaker.stats().state).toBe('open');
+
+    // Także w stanie półotwartym o zamknięciu decyduje tylko żądanie próbne
+    jest.advanceTimersByTime(10_000);
+    const trial = acquireAllowed(breaker);
+    breaker.recordSuccess(late.trial);
+    expect(breaker.stats().state).toBe('half_open');
+    expect(breaker.acquire().allowed).toBe(false);
+
+    breaker.recordFailure(trial.trial);
+    expect(breaker.stats().state).toBe('open');
+  });
+
+  it('zwolnienie anulowanego żądania próbnego pozwala wysłać kolejne', () => {
+    const breaker = new CircuitBreaker(1, 10_000);
+    breaker.recordFailure(acquireAllowed(breaker).trial);
+    jest.advanceTimersByTime(10_000);
+
+    const cancelled = acquireAllowed(breaker);
+    breaker.release(false);
+    expect(breaker.acquire().allowed).toBe(false);
+
+    breaker.release(cancelled.trial);
+    expect(acquireAllowed(breaker).trial).toBe(true);
+    expect(breaker.stats()).toMatchObject({ state: 'half_open', consecutive_failures: 1 });
+  });
+
+  it('próg 0 wyłącza breaker', () => {
+    const breaker = new CircuitBreaker(0, 10_000);
+
+    for (let i = 0; i < 5; i++) {
+      breaker.recordFailure(acquireAllowed(breaker).trial);
+    }
+
+    expect(breaker.stats()).toMatchObject({ enabled: false, state: 'closed', consecutive_failures: 5 });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { createNextCursor, decodeCursor, KEYSET_ROW_COLUMN } from '../src/helpers/keysetCursor.js';
+import type { SortKey } from '../src/helpers/keysetCursor.js';
+import { prepareReadOnlyQuery } from '../src/helpers/sqlValidator.js';
+
+type Row = Record<string, unknown>;
+
+const BY_STATUS: SortKey[] = [{ column: 'status', direction: 'ASC', nulls: null }];
+
+/**
+ * Porównanie wierszy jak w ORDER BY z applyKeyset: klucze z położeniem NULL, potem skrót wiersza
+ */
+function compareRows(keys: SortKey[], a: Row, b: Row): number {
+  for (const key of keys) {
+    const left = a[key.column] as string | number | null;
+    const right = b[key.column] as string | number | null;
+    if (left === right) {
+      continue;
+    }
+    const nullsFirst = key.nulls ? key.nulls === 'FIRST' : key.direction === 'DESC';
+    if (left === null || right === null) {
+      return (left === null) === nullsFirst ? -1 : 1;
+    }
+    return (left < right ? -1 : 1) * (key.direction === 'DESC' ? -1 : 1);
+  }
+  const [left, right] = [a[KEYSET_ROW_COLUMN] as string, b[KEYSET_ROW_COLUMN] as string];
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+/**
+ * Strona wyniku tak jak w executeSQLWithLimit: wiersze od kursora (włącznie z remisem skrótu) z pominięciem
+ * zwróconych już identycznych wierszy, limit + 1 wierszy, kursor z ostatniego wiersza strony
+ */
+function fetchPage(keys: SortKey[], rows: Row[], limit: number, cursor: string | null) {
+  const sorted = [...rows].sort((a, b) => compareRows(keys, a, b));
+  let candidates = sorted;
+
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    const boundary: Row = { [KEYSET_ROW_COLUMN]: decoded.row };
+    keys.forEach((key, index) => (boundary[key.column] = decoded.values[index]));
+    candidates = sorted.filter((row) => compareRows(keys, row, boundary) >= 0).slice(decoded.skip);
+  }
+
+  const result = candidates.slice(0, limit + 1);
+  const hasMore = result.length > limit;
+  const data = result.slice(0, limit);
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore ? createNextCursor('fp', keys, data, cursor ? decodeCursor(cursor) : undefined) : null,
+  };
+}
+
+/**
+ * Pobiera wszystkie strony kursorem
+ */
+function fetchAll(keys: SortKey[], rows: Row[], limit: number): Row[] {
+  const seen: Row[] = [];
+  let page = fetchPage(keys, rows, limit, null);
+  seen.push(...page.data);
+  while (page.nextCursor) {
+    page = fetchPage(keys, rows, limit, page.nextCursor);
+    seen.push(...page.data);
+  }
+  expect(page.hasMore).toBe(false);
+  return seen;
+}
+
+describe('createNextCursor', () => {
+  it('zapisuje wartości kluczy i skrót ostatniego wiersza', () => {
+    const cursor = createNextCursor('fp', BY_STATUS, [{ status: 'nowe', [KEYSET_ROW_COLUMN]: 'a1' }]);
+
+    expect(decodeCursor(cursor!)).toEqual({ fingerprint: 'fp', keys: BY_STATUS, values: ['nowe'], row: 'a1', skip: 1 });
+  });
+
+  it('tworzy kursor dla klucza NULL', () => {
+    const cursor = createNextCursor('fp', BY_STATUS, [{ status: null, [KEYSET_ROW_COLUMN]: 'a1' }]);
+
+    expect(decodeCursor(cursor!).values).toEqual([null]);
+  });
+
+  it('liczy identyczne wiersze na końcu strony, także z poprzednich stron', () => {
+    const row = { status: 'nowe', [KEYSET_ROW_COLUMN]: 'a1' };
+    const first = decodeCursor(createNextCursor('fp', BY_STATUS, [{ status: 'anulowane', [KEYSET_ROW_COLUMN]: 'b2' }, row, row])!);
+    const second = decodeCursor(createNextCursor('fp', BY_STATUS, [row, row], first)!);
+
+    expect(first.skip).toBe(2);
+    expect(second.skip).toBe(4);
+  });
+
+  it.each([
+    ['rosnąco z NULL (NULLS LAST)', [{ column: 'status', direction: 'ASC', nulls: null }]],
+    ['malejąco z NULL (NULLS FIRST)', [{ column: 'status', direction: 'DESC', nulls: null }]],
+    ['malejąco z NULLS LAST', [{ column: 'status', direction: 'DESC', nulls: 'LAST' }]],
+    [
+      'po dwóch kluczach z remisami',
+      [
+        { column: 'status', direction: 'ASC', nulls: 'FIRST' },
+        { column: 'kwota', direction: 'DESC', nulls: null },
+      ],
+    ],
+  ] as [string, SortKey[]][])('zwraca wszystkie wiersze bez powtórzeń: %s', (_name, keys) => {
+    const rows: Row[] = [
+      { id: 1, status: 'nowe', kwota: 10 },
+      { id: 2, status: null, kwota: 10 },
+      { id: 3, status: 'nowe', kwota: 10 },
+      { id: 4, status: 'anulowane', kwota: null },
+      { id: 5, status: null, kwota: 20 },
+      { id: 6, status: 'nowe', kwota: null },
+    ].map((row) => ({ ...row, [KEYSET_ROW_COLUMN]: `h${row.id}` }));
+
+    for (const limit of [1, 2, 3, 5]) {
+      const ids = fetchAll(keys, rows, limit).map((row) => row.id);
+      expect([...ids].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    }
+  });
+
+  it('zwraca wszystkie identyczne wiersze (ten sam skrót)', () => {
+    const rows: Row[] = [
+      { status: 'anulowane', [KEYSET_ROW_COLUMN]: 'a' },
+      ...Array.from({ length: 5 }, () => ({ status: 'nowe', [KEYSET_ROW_COLUMN]: 'b' })),
+      { status: 'wyslane', [KEYSET_ROW_COLUMN]: 'c' },
+    ];
+
+    for (const limit of [1, 2, 3]) {
+      expect(fetchAll(BY_STATUS, rows, limit).map((row) => row.status)).toEqual(rows.map((row) => row.status));
+    }
+  });
+});
+
+describe('paginacja kursorem w prepareReadOnlyQuery', () => {
+  const query = 'SELECT id, status FROM "Zamowienia" ORDER BY status, id';
+
+  it('odczytuje klucze sortowania i dodaje skrót wiersza do ORDER BY od pierwszej strony', async () => {
+    const first = await prepareReadOnlyQuery(query, 2);
+
+    expect(first.sortKeys).toEqual([
+      { column: 'status', direction: 'ASC', nulls: null },
+      { column: 'id', direction: 'ASC', nulls: null },
+    ]);
+    expect(first.sql).toContain('ORDER BY _keyset.status ASC, _keyset.id ASC, _keyset_row LIMIT 3');
+  });
+
+  it('uwzględnia NULL w kolumnie rosnącej (NULLS LAST)', async () => {
+    const first = await prepareReadOnlyQuery(query, 2);
+    const afterValue = createNextCursor(first.fingerprint, first.sortKeys!, [{ id: 2, status: 'nowe', [KEYSET_ROW_COLUMN]: 'h' }]);
+    const afterNull = createNextCursor(first.fingerprint, first.sortKeys!, [{ id: 2, status: null, [KEYSET_ROW_COLUMN]: 'h' }]);
+
+    const next = await prepareReadOnlyQuery(query, 2, 0, [], afterValue!);
+    expect(next.sql).toContain("WHERE _keyset.status > 'nowe' OR _keyset.status IS NULL OR");
+    expect(next.sql).toContain("_keyset.status = 'nowe' AND (_keyset.id > 2 OR _keyset.id IS NULL)");
+    expect(next.sql).toContain("_keyset.status = 'nowe' AND _keyset.id = 2 AND md5(_keyset::text) >= 'h'");
+    expect(next.sql).toMatch(/LIMIT 3 OFFSET 1$/);
+
+    const nullPage = await prepareReadOnlyQuery(query, 2, 0, [], afterNull!);
+    expect(nullPage.sql).toContain('_keyset.status IS NULL AND (_keyset.id > 2 OR _keyset.id IS NULL)');
+    expect(nullPage.sql).not.toContain('_keyset.status >');
+  });
+
+  it('uwzględnia NULL w kolumnie malejącej (NULLS FIRST)', async () => {
+    const descQuery = 'SELECT id, status FROM "Zamowienia" ORDER BY status DESC, id';
+    const first = await prepareReadOnlyQuery(descQuery, 2);
+    const cursor = createNextCursor(first.fingerprint, first.sortKeys!, [{ id: 2, status: null, [KEYSET_ROW_COLUMN]: 'h' }]);
+
+    const next = await prepareReadOnlyQuery(descQuery, 2, 0, [], cursor!);
+    expect(next.sql).toContain('_keyset.status IS NOT NULL');
+    expect(next.sql).toContain('_keyset.status IS NULL AND (_keyset.id > 2 OR _keyset.id IS NULL)');
+  });
+
+  it.each([
+    'SELECT * FROM "Zamowienia" z JOIN "Klienci" k ON k.id = z.id_klienta ORDER BY z.id',
+    'SELECT z.id, k.id FROM "Zamowienia" z JOIN "Klienci" k ON k.id = z.id_klienta ORDER BY 1',
+  ])('nie stosuje paginacji keyset przy niejednoznacznych kolumnach wyniku: %s', async (joinQuery) => {
+    const prepared = await prepareReadOnlyQuery(joinQuery, 2);
+
+    expect(prepared.sortKeys).toBeNull();
+    expect(prepared.sql).not.toContain('_keyset');
+  });
+
+  it('nie stosuje paginacji keyset przy OFFSET', async () => {
+    const prepared = await prepareReadOnlyQuery(query, 2, 4);
+
+    expect(prepared.sortKeys).toBeNull();
+    expect(prepared.sql).not.toContain('_keyset');
+  });
+
+  it('odrzuca kursor utworzony dla innego ORDER BY', async () => {
+    const first = await prepareReadOnlyQuery(query, 2);
+    const cursor = createNextCursor(first.fingerprint, [{ column: 'id', direction: 'DESC', nulls: null }], [
+      { id: 2, [KEYSET_ROW_COLUMN]: 'h' },
+    ]);
+
+    await expect(prepareReadOnlyQuery(query, 2, 0, [], cursor!)).rejects.toThrow(/different ORDER BY/);
+  });
+
+  it('odrzuca kursor innego zapytania', async () => {
+    const cursor = createNextCursor('inny', BY_STATUS, [{ status: 'nowe', [KEYSET_ROW_COLUMN]: 'h' }]);
+
+    await expect(prepareReadOnlyQuery('SELECT status FROM "Zamowienia" ORDER BY status', 2, 0, [], cursor!)).rejects.toThrow(
+      /does not match this query/
+    );
+  });
+});
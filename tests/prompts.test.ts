@@ -0,0 +1,43 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { loadPromptDefinitions, registerPrompts } from '../src/prompts/registry.js';
+import type { DatabaseClient } from '../src/services/databaseClient.js';
+
+describe('prompt daily_order_report', () => {
+  it('pobiera zamówienia dnia zapytaniem z datą jako parametrem', async () => {
+    const executeSQLWithLimit = jest.fn(async (query: string) => ({
+      data: [{ status: 'nowe', liczba: 2 }],
+      count: 1,
+      limited: false,
+      has_more: false,
+      next_cursor: null,
+      executed_sql: query,
+    }));
+    const databaseClient = {
+      executeSQLWithLimit,
+      getDatabaseSchema: async () => ({ tables: [] }),
+    } as unknown as DatabaseClient;
+
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerPrompts(server, { databaseClient }, await loadPromptDefinitions());
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.getPrompt({ name: 'daily_order_report', arguments: { date: '2026-03-10' } });
+    await client.close();
+
+    expect(executeSQLWithLimit).toHaveBeenCalledTimes(2);
+    for (const [query, limit, , params] of executeSQLWithLimit.mock.calls as unknown as [string, number, number, string[]][]) {
+      expect(query).toContain('$1::date');
+      expect(query).not.toContain('2026-03-10');
+      expect(params).toEqual(['2026-03-10']);
+      expect(limit).toBeLessThanOrEqual(100);
+    }
+    expect((result.messages[0].content as { text: string }).text).toContain('| nowe | 2 |');
+  });
+});
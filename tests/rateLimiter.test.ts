@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { RateLimiter, rateLimitKey, tokenFingerprint } from '../src/services/rateLimiter.js';
+import type { AppConfig } from '../src/types/index.js';
+
+function limiterWith(overrides: Partial<AppConfig>): RateLimiter {
+  // Limiter czyta tylko ustawienia limitów
+  return new RateLimiter({
+    rateLimitPerMinute: 0,
+    rateLimitTools: {},
+    dailyQuota: 0,
+    dailyQuotaTools: {},
+    ...overrides,
+  } as AppConfig);
+}
+
+describe('rateLimitKey', () => {
+  it('używa zweryfikowanego tokena niezależnie od IP i sesji', () => {
+    expect(rateLimitKey({ token: 'jwt', verified: true, sessionId: 's1', ip: '10.0.0.1' })).toBe(
+      `token:${tokenFingerprint('jwt')}`
+    );
+  });
+
+  it('przy niezweryfikowanym tokenie używa IP - zmiana tokena lub sesji nie daje nowego limitu', () => {
+    const first = rateLimitKey({ token: 'a', sessionId: 's1', ip: '10.0.0.1' });
+    const rotated = rateLimitKey({ token: 'b', sessionId: 's2', ip: '10.0.0.1' });
+
+    expect(first).toBe('ip:10.0.0.1');
+    expect(rotated).toBe(first);
+  });
+
+  it('bez IP (stdio) używa tokena, potem sesji', () => {
+    expect(rateLimitKey({ token: 'a', sessionId: 's1' })).toBe(`token:${tokenFingerprint('a')}`);
+    expect(rateLimitKey({ sessionId: 's1' })).toBe('session:s1');
+    expect(rateLimitKey({})).toBe('local');
+  });
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('odrzuca wywołania ponad limit na minutę i uzupełnia tokeny z czasem', () => {
+    const limiter = limiterWith({ rateLimitPerMinute: 2 });
+
+    expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+    expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+    expect(limiter.consume('ip:1', 'verify_order')).toEqual({ allowed: false, kind: 'rate', limit: 2, retryAfter: 30 });
+
+    // Inny wywołujący ma własny kubełek
+    expect(limiter.consume('ip:2', 'verify_order').allowed).toBe(true);
+
+    jest.advanceTimersByTime(30_000);
+    expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+  });
+
+  it('liczy limit per narzędzie osobno od pozostałych narzędzi', () => {
+    const limiter = limiterWith({ rateLimitTools: { execute_sql_limited: 1 } });
+
+    expect(limiter.consume('ip:1', 'execute_sql_limited').allowed).toBe(true);
+    expect(limiter.consume('ip:1', 'execute_sql_limited')).toMatchObject({ allowed: false, kind: 'tool_rate' });
+    expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+  });
+
+  it('odrzucone wywołanie nie zużywa innych limitów', () => {
+    const limiter = limiterWith({ rateLimitPerMinute: 10, dailyQuotaTools: { verify_orders: 1 } });
+
+    expect(limiter.consume('ip:1', 'verify_orders').allowed).toBe(true);
+    expect(limiter.consume('ip:1', 'verify_orders')).toMatchObject({ allowed: false, kind: 'tool_daily_quota' });
+
+    for (let i = 0; i < 9; i++) {
+      expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+    }
+    expect(limiter.consume('ip:1', 'verify_order')).toMatchObject({ allowed: false, kind: 'rate' });
+  });
+
+  it('resetuje dzienny limit o północy UTC', () => {
+    const limiter = limiterWith({ dailyQuota: 1 });
+
+    expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+    expect(limiter.consume('ip:1', 'verify_order')).toEqual({
+      allowed: false,
+      kind: 'daily_quota',
+      limit: 1,
+      retryAfter: 12 * 60 * 60,
+    });
+
+    jest.setSystemTime(new Date('2026-03-11T00:00:01Z'));
+    expect(limiter.consume('ip:1', 'verify_order').allowed).toBe(true);
+  });
+
+  it('zlicza odrzucone wywołania w statystykach', () => {
+    const limiter = limiterWith({ rateLimitPerMinute: 1 });
+
+    limiter.consume('ip:1', 'verify_order');
+    limiter.consume('ip:1', 'verify_order');
+
+    expect(limiter.stats()).toMatchObject({ enabled: true, tracked_keys: 1, throttled: { rate: 1, total: 1 } });
+  });
+});
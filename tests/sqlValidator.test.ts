@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { prepareReadOnlyQuery } from '../src/helpers/sqlValidator.js';
+import { ApiError } from '../src/types/index.js';
+
+describe('prepareReadOnlyQuery', () => {
+  it('nakłada limit i pobiera jeden wiersz ponad stronę', async () => {
+    const prepared = await prepareReadOnlyQuery('SELECT id FROM "Klienci"', 10);
+
+    expect(prepared.limited).toBe(true);
+    expect(prepared.limit).toBe(10);
+    expect(prepared.sql).toMatch(/LIMIT 11$/);
+  });
+
+  it('zachowuje mniejszy LIMIT zapytania', async () => {
+    const prepared = await prepareReadOnlyQuery('SELECT id FROM "Klienci" LIMIT 5', 10);
+
+    expect(prepared.limit).toBe(5);
+    expect(prepared.sql).toMatch(/LIMIT 6$/);
+  });
+
+  it('zachowuje LIMIT 0 bez pobierania dodatkowego wiersza', async () => {
+    const prepared = await prepareReadOnlyQuery('SELECT id FROM "Klienci" ORDER BY id LIMIT 0', 10);
+
+    expect(prepared.limit).toBe(0);
+    expect(prepared.sortKeys).toBeNull();
+    expect(prepared.sql).toMatch(/LIMIT 0$/);
+  });
+
+  it('odrzuca FETCH FIRST ... WITH TIES', async () => {
+    await expect(
+      prepareReadOnlyQuery('SELECT id FROM "Klienci" ORDER BY nazwisko FETCH FIRST 5 ROWS WITH TIES', 10)
+    ).rejects.toThrow(/WITH TIES is not supported/);
+  });
+
+  it.each([
+    ['INSERT INTO "Klienci" (id) VALUES (1)', /Only SELECT/],
+    ['SELECT 1; DELETE FROM "Klienci"', /single statement/],
+    ['WITH d AS (DELETE FROM "Klienci" RETURNING id) SELECT * FROM d', /DELETE is not allowed/],
+    ['SELECT * INTO kopia FROM "Klienci"', /INTO/],
+    ['SELECT * FROM "Klienci" FOR UPDATE', /FOR UPDATE/],
+  ])('odrzuca zapytanie modyfikujące: %s', async (query, message) => {
+    await expect(prepareReadOnlyQuery(query, 10)).rejects.toThrow(message);
+  });
+
+  it.each([
+    'pg_sleep(10)',
+    'lo_import(\'/etc/passwd\')',
+    'lo_put(16385, 0, \'\\x00\')',
+    'lo_from_bytea(0, \'\\x00\')',
+    'lo_create(0)',
+    'lo_unlink(16385)',
+    'pg_logical_emit_message(true, \'p\', \'x\')',
+    'pg_catalog.set_config(\'role\', \'postgres\', false)',
+    'current_setting(\'app.settings.jwt_secret\')',
+    'pg_stat_reset()',
+    'pg_stat_reset_shared(\'bgwriter\')',
+    'pg_create_restore_point(\'x\')',
+    'lo_get(16385)',
+  ])('odrzuca funkcję z efektami ubocznymi: %s', async (call) => {
+    const result = prepareReadOnlyQuery(`SELECT ${call}`, 10);
+
+    await expect(result).rejects.toBeInstanceOf(ApiError);
+    await expect(result).rejects.toThrow(/is not allowed in read-only queries/);
+  });
+
+  it('odrzuca zakazaną funkcję zagnieżdżoną w podzapytaniu', async () => {
+    await expect(
+      prepareReadOnlyQuery('SELECT id FROM "Klienci" WHERE id IN (SELECT lo_unlink(16385))', 10)
+    ).rejects.toThrow(/lo_unlink\(\) is not allowed/);
+  });
+
+  it.each([
+    ['SELECT * FROM generate_series(1, 1000000000000)', []],
+    ['SELECT count(*) FROM generate_series(1, $1, 2)', [1000000]],
+  ])('odrzuca generate_series ponad limit wierszy: %s', async (query, params) => {
+    await expect(prepareReadOnlyQuery(query, 10, 0, params)).rejects.toThrow(/generate_series\(\) would return/);
+  });
+
+  it('dopuszcza krótkie generate_series, także malejące', async () => {
+    await expect(prepareReadOnlyQuery('SELECT * FROM generate_series(10, 1, -1)', 10)).resolves.toMatchObject({ limit: 10 });
+  });
+
+  it('podstawia parametry jako stałe', async () => {
+    const prepared = await prepareReadOnlyQuery('SELECT id FROM "Klienci" WHERE email = $1', 10, 0, ["x' OR '1'='1"]);
+
+    expect(prepared.sql).toContain("'x'' OR ''1''=''1'");
+  });
+});